@@ -0,0 +1,173 @@
+import {
+  AccessibilityOptions,
+  FocusTrigger,
+  Page,
+  TransitionDirection,
+} from './types'
+import { isFunction, isSSR, wait } from './utilities'
+
+export default class Accessibility {
+  public options: Required<AccessibilityOptions>
+
+  protected announce: (page: Page, message: string) => Promise<void>
+
+  protected fragmentElements: Record<string, HTMLElement> = {}
+
+  protected triggers: Record<string, FocusTrigger> = {}
+
+  protected pendingTrigger: FocusTrigger | null = null
+
+  protected pendingFocus: HTMLElement | null = null
+
+  protected navigating = false
+
+  public constructor(
+    options: AccessibilityOptions = {},
+    announce: (page: Page, message: string) => Promise<void>,
+  ) {
+    const { focus = 'heading', announce: announcePage = true } = options
+
+    this.options = {
+      focus,
+      announce: announcePage,
+    }
+    this.announce = announce
+  }
+
+  /**
+   * Register the root element of a fragment which contains the focus target
+   */
+  public registerFragment(name: string, element: HTMLElement): () => void {
+    this.fragmentElements[name] = element
+
+    return () => {
+      if (this.fragmentElements[name] === element) {
+        delete this.fragmentElements[name]
+      }
+    }
+  }
+
+  /**
+   * Remember the link that started the next visit so it can be focused again
+   * once the user navigates back
+   */
+  public rememberTrigger(element: HTMLElement): void {
+    const href = element.getAttribute('href') ?? ''
+
+    this.pendingTrigger = {
+      element,
+      href,
+      index: this.findLinks(href).indexOf(element),
+    }
+  }
+
+  /**
+   * Return the focus to an element, e.g. the one that opened a closed modal,
+   * which takes precedence over the usual target of a pending navigation
+   */
+  public restoreFocus(element: HTMLElement): void {
+    if (this.navigating) {
+      this.pendingFocus = element
+      return
+    }
+
+    element.focus()
+  }
+
+  public async handleNavigate(
+    page: Page,
+    previousPage: Page | undefined,
+    direction: TransitionDirection,
+  ): Promise<void> {
+    if (isSSR() || page.visit.background) {
+      return
+    }
+
+    // Assign the link to the page it was clicked on
+    const trigger = this.pendingTrigger
+    this.pendingTrigger = null
+    if (direction === 'forward' && trigger && previousPage) {
+      this.triggers[previousPage.location.href] = trigger
+    }
+
+    // Wait until the next page is rendered
+    this.navigating = true
+    await wait(0)
+    this.navigating = false
+
+    const pendingFocus = this.pendingFocus
+    this.pendingFocus = null
+
+    // The document itself is never focused in case no fragment is registered
+    const root =
+      this.fragmentElements[page.visit.fragmentName ?? 'default'] ??
+      this.fragmentElements.default ??
+      null
+    const element =
+      (pendingFocus?.isConnected ? pendingFocus : null) ??
+      (direction === 'back'
+        ? this.resolveTrigger(this.triggers[page.location.href])
+        : null) ??
+      (root ? this.resolveFocusTarget(root) : null)
+
+    if (element) {
+      // Elements like headings are not focusable by default
+      if (!element.hasAttribute('tabindex') && element.tabIndex < 0) {
+        element.setAttribute('tabindex', '-1')
+      }
+
+      element.focus({
+        preventScroll: true,
+      })
+    }
+
+    const message = isFunction(this.options.announce)
+      ? this.options.announce(page)
+      : this.options.announce
+      ? document.title || root?.querySelector('h1')?.textContent?.trim()
+      : null
+
+    if (message) {
+      await this.announce(page, message)
+    }
+  }
+
+  protected resolveFocusTarget(root: HTMLElement): HTMLElement | null {
+    switch (this.options.focus) {
+      case 'heading':
+        return root.querySelector<HTMLElement>('h1') ?? root
+
+      case 'marker':
+        return root.querySelector<HTMLElement>('[data-navigare-focus]') ?? root
+
+      case 'fragment':
+        return root
+
+      default:
+        return null
+    }
+  }
+
+  protected resolveTrigger(
+    trigger: FocusTrigger | undefined,
+  ): HTMLElement | null {
+    if (!trigger) {
+      return null
+    }
+
+    // Links are usually rendered again after navigating back
+    if (trigger.element.isConnected) {
+      return trigger.element
+    }
+
+    return this.findLinks(trigger.href)[trigger.index] ?? null
+  }
+
+  protected findLinks(href: string): HTMLElement[] {
+    return Array.from(document.querySelectorAll<HTMLElement>('[href]')).filter(
+      (element) => {
+        return element.getAttribute('href') === href
+      },
+    )
+  }
+}
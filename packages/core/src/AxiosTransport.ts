@@ -0,0 +1,93 @@
+import TransportError from './TransportError'
+import {
+  AxiosLike,
+  AxiosResponseLike,
+  Transport,
+  TransportRequest,
+  TransportRequestHeaders,
+  TransportResponse,
+} from './types'
+
+export default class AxiosTransport implements Transport {
+  protected axios: AxiosLike
+
+  /**
+   * Axios is passed in so that the instance configured by the app, e.g. with
+   * interceptors or defaults, is used
+   */
+  public constructor(axios: AxiosLike) {
+    this.axios = axios
+  }
+
+  public async request<TData = unknown>(
+    request: TransportRequest,
+  ): Promise<TransportResponse<TData>> {
+    const {
+      method,
+      url,
+      data,
+      headers = {},
+      signal,
+      onUploadProgress,
+      onDownloadProgress,
+    } = request
+
+    try {
+      const response = await this.axios.request<TData>({
+        method,
+        url,
+        data,
+        headers: AxiosTransport.createHeaders(headers),
+        signal,
+        onUploadProgress,
+        onDownloadProgress,
+      })
+
+      return AxiosTransport.createResponse(response, url)
+    } catch (error) {
+      if (this.axios.isCancel(error)) {
+        throw new TransportError('Request was cancelled', request, {
+          cancelled: true,
+        })
+      }
+
+      if (this.axios.isAxiosError<TData>(error)) {
+        throw new TransportError(error.message, request, {
+          response: error.response
+            ? AxiosTransport.createResponse(error.response, url)
+            : undefined,
+        })
+      }
+
+      throw error
+    }
+  }
+
+  protected static createHeaders(
+    headers: TransportRequestHeaders,
+  ): Record<string, Exclude<TransportRequestHeaders[string], undefined>> {
+    return Object.fromEntries(
+      Object.entries(headers).filter(
+        (entry): entry is [string, Exclude<typeof entry[1], undefined>] => {
+          return entry[1] !== undefined
+        },
+      ),
+    )
+  }
+
+  protected static createResponse<TData>(
+    response: AxiosResponseLike<TData>,
+    url: string,
+  ): TransportResponse<TData> {
+    return {
+      status: response.status,
+      headers: Object.fromEntries(
+        Object.entries(response.headers ?? {}).map(([name, value]) => {
+          return [name.toLowerCase(), String(value)]
+        }),
+      ),
+      data: response.data,
+      url: response.request?.responseURL || url,
+    }
+  }
+}
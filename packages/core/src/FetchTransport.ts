@@ -0,0 +1,209 @@
+import TransportError from './TransportError'
+import {
+  FetchTransportOptions,
+  RouteMethod,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from './types'
+import { isSSR } from './utilities'
+
+export default class FetchTransport implements Transport {
+  public options: Required<Omit<FetchTransportOptions, 'fetch'>>
+
+  protected fetch: typeof fetch
+
+  public constructor(options: FetchTransportOptions = {}) {
+    const {
+      credentials = 'same-origin',
+      xsrfCookieName = 'XSRF-TOKEN',
+      xsrfHeaderName = 'X-XSRF-TOKEN',
+    } = options
+
+    this.options = {
+      credentials,
+      xsrfCookieName,
+      xsrfHeaderName,
+    }
+    this.fetch =
+      options.fetch ??
+      ((input, init) => {
+        return fetch(input, init)
+      })
+  }
+
+  /**
+   * Uploads cannot be tracked with `fetch`, so `onUploadProgress` is ignored
+   * and only the download of the response is reported
+   */
+  public async request<TData = unknown>(
+    request: TransportRequest,
+  ): Promise<TransportResponse<TData>> {
+    const { method, url, signal, onDownloadProgress } = request
+
+    let response: Response
+    let data: unknown
+    try {
+      response = await this.fetch(url, {
+        method,
+        headers: this.createHeaders(request),
+        body: this.createBody(request),
+        credentials: this.options.credentials,
+        signal,
+      })
+
+      data = this.parseBody(
+        response,
+        await this.readBody(response, onDownloadProgress),
+      )
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new TransportError('Request was cancelled', request, {
+          cancelled: true,
+        })
+      }
+
+      throw new TransportError(
+        error instanceof Error ? error.message : 'Network Error',
+        request,
+      )
+    }
+
+    const transportResponse: TransportResponse<TData> = {
+      status: response.status,
+      headers: Object.fromEntries(
+        Array.from(response.headers.entries()).map(([name, value]) => {
+          return [name.toLowerCase(), value]
+        }),
+      ),
+      data: data as TData,
+      url: response.url || url,
+    }
+
+    if (!response.ok) {
+      throw new TransportError(
+        `Request failed with status code ${response.status}`,
+        request,
+        {
+          response: transportResponse,
+        },
+      )
+    }
+
+    return transportResponse
+  }
+
+  protected createHeaders(request: TransportRequest): Headers {
+    const { url, data, headers: requestHeaders = {} } = request
+    const headers = new Headers()
+
+    Object.entries(requestHeaders).forEach(([name, value]) => {
+      if (value === null || value === undefined) {
+        return
+      }
+
+      headers.set(name, Array.isArray(value) ? value.join(',') : String(value))
+    })
+
+    if (this.hasBody(request) && !(data instanceof FormData)) {
+      headers.set('Content-Type', 'application/json')
+    }
+
+    // Mimic browsers and axios which send the XSRF token to the same origin
+    const xsrfToken = this.isSameOrigin(url)
+      ? this.readCookie(this.options.xsrfCookieName)
+      : null
+    if (xsrfToken && !headers.has(this.options.xsrfHeaderName)) {
+      headers.set(this.options.xsrfHeaderName, xsrfToken)
+    }
+
+    return headers
+  }
+
+  protected hasBody(request: TransportRequest): boolean {
+    return !!request.data && request.method !== RouteMethod.GET
+  }
+
+  protected createBody(request: TransportRequest): BodyInit | undefined {
+    if (!this.hasBody(request)) {
+      return undefined
+    }
+
+    return request.data instanceof FormData
+      ? request.data
+      : JSON.stringify(request.data)
+  }
+
+  protected async readBody(
+    response: Response,
+    onDownloadProgress: TransportRequest['onDownloadProgress'],
+  ): Promise<string> {
+    if (!onDownloadProgress || !response.body) {
+      return await response.text()
+    }
+
+    const contentLength = Number(response.headers.get('Content-Length'))
+    const total = contentLength > 0 ? contentLength : undefined
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let text = ''
+    let loaded = 0
+
+    for (;;) {
+      const { done, value } = await reader.read()
+
+      if (done) {
+        break
+      }
+
+      loaded += value.byteLength
+      text += decoder.decode(value, { stream: true })
+
+      // Compressed responses announce less bytes than they finally contain
+      const knownTotal = total && total >= loaded ? total : undefined
+
+      onDownloadProgress({
+        loaded,
+        total: knownTotal,
+        progress: knownTotal ? loaded / knownTotal : undefined,
+        bytes: value.byteLength,
+        download: true,
+      })
+    }
+
+    return text + decoder.decode()
+  }
+
+  protected parseBody(response: Response, text: string): unknown {
+    if (!text || !response.headers.get('Content-Type')?.includes('json')) {
+      return text
+    }
+
+    try {
+      return JSON.parse(text)
+    } catch {
+      return text
+    }
+  }
+
+  protected isSameOrigin(url: string): boolean {
+    if (isSSR()) {
+      return false
+    }
+
+    return new URL(url, window.location.href).origin === window.location.origin
+  }
+
+  protected readCookie(name: string): string | null {
+    if (isSSR()) {
+      return null
+    }
+
+    const cookie = document.cookie
+      .split(';')
+      .map((part) => part.trim())
+      .find((part) => part.startsWith(`${name}=`))
+
+    return cookie ? decodeURIComponent(cookie.substring(name.length + 1)) : null
+  }
+}
@@ -0,0 +1,164 @@
+import PartialRoute from './PartialRoute'
+import {
+  MatchPredicate,
+  RouteDefaults,
+  RouteName,
+  RouterLocation,
+} from './types'
+import { get, isDefined, isNotNull } from './utilities'
+import { parse } from 'qs'
+
+export default class MatchExpression {
+  protected static cache = new Map<string, MatchExpression>()
+
+  public expression: string
+
+  public negated: boolean
+
+  public name: RegExp
+
+  public parameters: MatchPredicate[]
+
+  public query: MatchPredicate[]
+
+  protected constructor(expression: string) {
+    const [, negation, name = '', parameters = '', query = ''] =
+      /^(!)?([^[?]*)(?:\[([^\]]*)\])?(?:\?(.*))?$/.exec(expression.trim()) ?? []
+
+    this.expression = expression
+    this.negated = !!negation
+
+    // Everything but the wildcard is matched literally
+    const pattern = name
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')
+    this.name = new RegExp(`^${pattern}$`)
+    this.parameters = MatchExpression.parsePredicates(parameters, ',')
+    this.query = MatchExpression.parsePredicates(query, '&')
+  }
+
+  /**
+   * Get the precompiled matcher of an expression, e.g.
+   * `!admin.logs.*`, `events.show[event=5|6]` or `admin.*?team=current`
+   */
+  public static compile(expression: string): MatchExpression {
+    const cachedMatchExpression = this.cache.get(expression)
+
+    if (cachedMatchExpression) {
+      return cachedMatchExpression
+    }
+
+    const matchExpression = new MatchExpression(expression)
+    this.cache.set(expression, matchExpression)
+
+    return matchExpression
+  }
+
+  /**
+   * Check if a string is a match expression rather than an URL
+   */
+  public static isExpression(value: unknown): value is string {
+    return (
+      typeof value === 'string' &&
+      !value.startsWith('http') &&
+      !value.startsWith('/')
+    )
+  }
+
+  protected static parsePredicates(
+    predicates: string,
+    separator: string,
+  ): MatchPredicate[] {
+    return predicates
+      .split(separator)
+      .map((predicate): MatchPredicate | null => {
+        const [, key, operator, values] =
+          /^([^!=]+)(?:(!?=)(.*))?$/.exec(predicate.trim()) ?? []
+
+        if (!key) {
+          return null
+        }
+
+        return {
+          key: key.trim(),
+          negated: operator === '!=',
+          values: isDefined(values)
+            ? values.split('|').map((value) => value.trim())
+            : null,
+        }
+      })
+      .filter(isNotNull)
+  }
+
+  protected static testPredicate(
+    { negated, values }: MatchPredicate,
+    value: unknown,
+  ): boolean {
+    const present = isDefined(value) && value !== null
+
+    // Predicates without values only check for presence
+    if (!values) {
+      return present
+    }
+
+    const matches = present && values.includes(String(value))
+
+    return negated ? !matches : matches
+  }
+
+  /**
+   * Check if the route and location match the expression
+   */
+  public test(
+    route: PartialRoute<RouteName>,
+    location: RouterLocation,
+    defaults: RouteDefaults = {},
+  ): boolean {
+    return this.negated
+      ? !this.testPositive(route, location, defaults)
+      : this.testPositive(route, location, defaults)
+  }
+
+  protected testPositive(
+    route: PartialRoute<RouteName>,
+    location: RouterLocation,
+    defaults: RouteDefaults,
+  ): boolean {
+    if (!this.name.test(route.name)) {
+      return false
+    }
+
+    if (this.parameters.length > 0) {
+      const parameters = route.getParameters(defaults)
+
+      if (
+        !this.parameters.every((predicate) => {
+          return MatchExpression.testPredicate(
+            predicate,
+            get(parameters, predicate.key),
+          )
+        })
+      ) {
+        return false
+      }
+    }
+
+    if (this.query.length > 0) {
+      const query = parse(location.search.substring(1))
+
+      if (
+        !this.query.every((predicate) => {
+          return MatchExpression.testPredicate(
+            predicate,
+            get(query, predicate.key),
+          )
+        })
+      ) {
+        return false
+      }
+    }
+
+    return true
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  OfflineOptions,
+  OfflineVisit,
+  OfflineVisitData,
+  VisitData,
+} from './types'
+import { isSSR } from './utilities'
+
+export default class OfflineQueue {
+  public options: Required<OfflineOptions>
+
+  protected database?: Promise<IDBDatabase>
+
+  public constructor(options: OfflineOptions = {}) {
+    const { database = 'navigare', store = 'visits' } = options
+
+    this.options = {
+      database,
+      store,
+    }
+  }
+
+  public static isSupported(): boolean {
+    return !isSSR() && 'indexedDB' in window
+  }
+
+  /**
+   * Convert visit data into a structure that can be stored in IndexedDB,
+   * which is able to clone files but not `FormData`
+   */
+  public static serialize(data: VisitData): OfflineVisitData {
+    if (data instanceof FormData) {
+      return {
+        type: 'form-data',
+        entries: [...data.entries()],
+      }
+    }
+
+    return {
+      type: 'object',
+      value: data,
+    }
+  }
+
+  public static deserialize(data: OfflineVisitData): VisitData {
+    if (data.type === 'form-data') {
+      const formData = new FormData()
+
+      data.entries.forEach(([name, value]) => {
+        formData.append(name, value)
+      })
+
+      return formData
+    }
+
+    return data.value
+  }
+
+  /**
+   * Store a visit at the end of the queue
+   */
+  public async add(entry: Omit<OfflineVisit, 'id'>): Promise<OfflineVisit> {
+    const id = await this.request<IDBValidKey>('readwrite', (store) => {
+      return store.add(entry)
+    })
+
+    return {
+      ...entry,
+      id: Number(id),
+    }
+  }
+
+  /**
+   * Get all stored visits in the order they were queued
+   */
+  public async all(): Promise<OfflineVisit[]> {
+    return await this.request<OfflineVisit[]>('readonly', (store) => {
+      return store.getAll()
+    })
+  }
+
+  public async delete(id: number): Promise<void> {
+    await this.request('readwrite', (store) => {
+      return store.delete(id)
+    })
+  }
+
+  protected open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.options.database, 1)
+
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.options.store, {
+            keyPath: 'id',
+            autoIncrement: true,
+          })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+
+    return this.database
+  }
+
+  protected async request<TResult>(
+    mode: IDBTransactionMode,
+    callback: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<TResult> {
+    const database = await this.open()
+
+    return new Promise((resolve, reject) => {
+      const request = callback(
+        database
+          .transaction(this.options.store, mode)
+          .objectStore(this.options.store),
+      )
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+}
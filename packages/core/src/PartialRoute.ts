@@ -1,3 +1,4 @@
+import MatchExpression from './MatchExpression'
 import { Default, Wildcard } from './symbols'
 import {
   RouteMethod,
@@ -157,8 +158,13 @@ export default class PartialRoute<TName extends RouteName = RouteName> {
    * [{ name: 'team', required: true }, { name: 'user', required: false }]
    */
   getParameterSegments(location: RouterLocation, absolute: boolean) {
-    const template = this.getTemplate(location, absolute)
+    return this.parseParameterSegments(this.getTemplate(location, absolute))
+  }
 
+  /**
+   * Extract the parameter segments from a template.
+   */
+  protected parseParameterSegments(template: string) {
     return (
       template.match(/{[^}?]+\??}/g)?.map((segment) => ({
         name: segment.replace(/{|\??}/g, ''),
@@ -195,14 +201,14 @@ export default class PartialRoute<TName extends RouteName = RouteName> {
     location: RouterLocation,
     defaults: RouteDefaults = {},
   ): boolean {
-    // Test the passed name against the route, matching some
-    // basic wildcards, e.g. passing `events.*` matches `events.show`
-    if (isString(comparableRoute) && !comparableRoute.startsWith('http')) {
-      const match = new RegExp(
-        `^${comparableRoute.replace(/\./g, '\\.').replace(/\*/g, '.*')}$`,
-      ).test(this.name)
-
-      return match
+    // Test the passed match expression against the route, e.g. passing
+    // `events.*` matches `events.show` (see `MatchExpression` for the syntax)
+    if (MatchExpression.isExpression(comparableRoute)) {
+      return MatchExpression.compile(comparableRoute).test(
+        this,
+        location,
+        defaults,
+      )
     }
 
     // Checking an URL against this route
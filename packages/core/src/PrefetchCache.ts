@@ -0,0 +1,144 @@
+import {
+  Page,
+  PrefetchCacheEntry,
+  PrefetchCacheHit,
+  PrefetchOptions,
+  RouteMethod,
+  TransportResponse,
+} from './types'
+
+export default class PrefetchCache {
+  public options: Required<PrefetchOptions>
+
+  protected entries = new Map<string, PrefetchCacheEntry>()
+
+  protected pendingRequests = new Map<
+    string,
+    Promise<TransportResponse<Page> | undefined>
+  >()
+
+  public constructor(options: PrefetchOptions = {}) {
+    const { ttl = 30000, stale = 60000, max = 20 } = options
+
+    this.options = {
+      ttl,
+      stale,
+      max,
+    }
+  }
+
+  /**
+   * Create the key under which a response is cached
+   *
+   * @example
+   * GET https://navigare.test/posts posts,users
+   */
+  public static createKey(
+    method: RouteMethod,
+    href: string,
+    properties: string | string[] = [],
+  ): string {
+    return [method, href, [properties].flat().join(',')].join(' ').trim()
+  }
+
+  public get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Get a cached response if it is either fresh or still within the
+   * stale-while-revalidate window
+   */
+  public get(key: string): PrefetchCacheHit | undefined {
+    const entry = this.entries.get(key)
+
+    if (!entry) {
+      return undefined
+    }
+
+    const age = Date.now() - entry.timestamp
+
+    // Expired entries are removed right away
+    if (age > entry.ttl + entry.stale) {
+      this.entries.delete(key)
+
+      return undefined
+    }
+
+    return {
+      response: entry.response,
+      stale: age > entry.ttl,
+    }
+  }
+
+  /**
+   * Check if there is a fresh response for the given key
+   */
+  public has(key: string): boolean {
+    const hit = this.get(key)
+
+    return !!hit && !hit.stale
+  }
+
+  public set(
+    key: string,
+    response: TransportResponse<Page>,
+    options: Omit<PrefetchOptions, 'max'> = {},
+  ): void {
+    const { ttl = this.options.ttl, stale = this.options.stale } = options
+
+    // Re-insert the entry so it becomes the most recent one
+    this.entries.delete(key)
+    this.entries.set(key, {
+      key,
+      response,
+      timestamp: Date.now(),
+      ttl,
+      stale,
+    })
+
+    // Evict the oldest entries once the limit is exceeded
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= Math.max(this.options.max, 0)) {
+        break
+      }
+
+      this.entries.delete(oldestKey)
+    }
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key)
+    this.pendingRequests.delete(key)
+  }
+
+  public clear(): void {
+    this.entries.clear()
+    this.pendingRequests.clear()
+  }
+
+  public getPending(
+    key: string,
+  ): Promise<TransportResponse<Page> | undefined> | undefined {
+    return this.pendingRequests.get(key)
+  }
+
+  /**
+   * Remember a pending request so concurrent prefetches share one request
+   */
+  public setPending(
+    key: string,
+    request: Promise<TransportResponse<Page> | undefined>,
+  ): Promise<TransportResponse<Page> | undefined> {
+    this.pendingRequests.set(key, request)
+
+    const removeRequest = () => {
+      if (this.pendingRequests.get(key) === request) {
+        this.pendingRequests.delete(key)
+      }
+    }
+    request.then(removeRequest, removeRequest)
+
+    return request
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  CachedValue,
+  Page,
+  Properties,
+  PropertyCacheEntry,
+  PropertyCacheInstructions,
+  PropertyCacheOptions,
+  PropertyValue,
+} from './types'
+import { cloneDeep, isObject } from './utilities'
+
+export default class PropertyCache {
+  public options: Required<PropertyCacheOptions>
+
+  protected entries = new Map<string, PropertyCacheEntry>()
+
+  public constructor(options: PropertyCacheOptions = {}) {
+    const { max = 50 } = options
+
+    this.options = {
+      max,
+    }
+  }
+
+  public static isCachedValue(value: unknown): value is CachedValue {
+    return isObject(value) && '__cached' in value
+  }
+
+  public get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Get the keys of all valid entries which are sent to the server so it
+   * can omit these properties on any page that shares them
+   */
+  public keys(): string[] {
+    return Array.from(this.entries.keys()).filter((key) => {
+      return this.get(key) !== undefined
+    })
+  }
+
+  public get(key: string): PropertyValue | undefined {
+    const entry = this.entries.get(key)
+
+    if (!entry) {
+      return undefined
+    }
+
+    // Expired entries are removed right away
+    if (Date.now() > entry.expires) {
+      this.entries.delete(key)
+
+      return undefined
+    }
+
+    return cloneDeep(entry.value)
+  }
+
+  /**
+   * Store a value for the given amount of seconds
+   */
+  public set(key: string, value: PropertyValue, ttl: number): void {
+    // Re-insert the entry so it becomes the most recent one
+    this.entries.delete(key)
+    this.entries.set(key, {
+      key,
+      value: cloneDeep(value),
+      expires: Date.now() + ttl * 1000,
+    })
+
+    // Evict the oldest entries once the limit is exceeded
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= Math.max(this.options.max, 0)) {
+        break
+      }
+
+      this.entries.delete(oldestKey)
+    }
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key)
+  }
+
+  public clear(): void {
+    this.entries.clear()
+  }
+
+  /**
+   * Store the cacheable properties of a page as sent by the server and
+   * re-insert the ones the server omitted
+   */
+  public resolve(page: Page): Page {
+    page.properties = this.resolveProperties(page.properties)
+
+    for (const fragments of Object.values(page.fragments)) {
+      for (const fragment of fragments ?? []) {
+        if (fragment) {
+          fragment.properties = this.resolveProperties(fragment.properties)
+        }
+      }
+    }
+
+    return page
+  }
+
+  protected resolveProperties<TProperties extends Properties>(
+    properties: TProperties,
+  ): TProperties {
+    const { __cache, ...otherProperties } = properties
+    const instructions = (__cache ?? {}) as PropertyCacheInstructions
+
+    // The instructions are only meant for the cache, not for the components
+    return Object.fromEntries(
+      Object.entries(otherProperties).map(([name, value]) => {
+        if (PropertyCache.isCachedValue(value)) {
+          const cachedValue = this.get(value.__cached)
+
+          // Missing values are loaded afterwards just like deferred ones
+          return [
+            name,
+            cachedValue === undefined ? { __deferred: true } : cachedValue,
+          ]
+        }
+
+        const instruction = instructions[name]
+        if (instruction) {
+          this.set(instruction.key, value, instruction.ttl)
+        }
+
+        return [name, value]
+      }),
+    ) as TProperties
+  }
+}
@@ -8,8 +8,18 @@ import {
   RouteDefaults,
   QueryStringArrayFormat,
   RouteOptions,
+  RouteIssue,
+  RouteValidationOptions,
+  RouteValidationResult,
 } from './types'
-import { throwError, get, isBoolean } from './utilities'
+import {
+  throwError,
+  get,
+  isBoolean,
+  isDefined,
+  isObject,
+  isString,
+} from './utilities'
 import { stringify } from 'qs'
 
 export default class Route<
@@ -77,6 +87,121 @@ export default class Route<
     return new URL(this.getHref(location, defaults, options), location.href)
   }
 
+  /**
+   * Validate the parameters of this route without compiling the URL.
+   */
+  public validate(options: RouteValidationOptions = {}): RouteIssue[] {
+    const result = this.safeParse(this.parameters, options)
+
+    return result.success ? [] : result.issues
+  }
+
+  /**
+   * Check the given parameters against the segments, bindings and `wheres` of
+   * this route and return either the resolved parameters or all issues.
+   */
+  public safeParse(
+    parameters: RawRouteParameters<TName>,
+    options: RouteValidationOptions = {},
+  ): RouteValidationResult<TName> {
+    const { defaults = {}, strict = false } = options
+    const { wheres = {}, bindings = {} } = this.rawRoute
+    const segments = this.parseParameterSegments(
+      [this.rawRoute.domain, this.rawRoute.uri].filter(isString).join('/'),
+    )
+    const issues: RouteIssue[] = []
+
+    // Check for unknown parameters and objects that cannot be bound
+    for (const key of Object.keys(parameters)) {
+      const value = get(parameters, key)
+      const segment = segments.some(({ name }) => name === key)
+
+      if (strict && key !== '_query' && !segment && !(key in bindings)) {
+        issues.push({
+          code: 'unknown_parameter',
+          parameter: key,
+          message: `"${key}" is not a parameter of route "${this.name}"`,
+        })
+        continue
+      }
+
+      if (!segment || !isObject(value)) {
+        continue
+      }
+
+      const binding = get(bindings, key)
+
+      if (!isString(binding)) {
+        issues.push({
+          code: 'invalid_binding',
+          parameter: key,
+          message: `an object was passed to parameter "${key}" but route "${this.name}" does not bind it to a property`,
+        })
+      } else if (!get(value, binding)) {
+        issues.push({
+          code: 'invalid_binding',
+          parameter: key,
+          message: `an object was passed to parameter "${key}" but it is missing the property "${binding}"`,
+        })
+      }
+    }
+
+    // Resolve the remaining parameters and check them against the segments
+    const isValid = (key: string) => {
+      return !issues.some(({ parameter }) => parameter === key)
+    }
+    const resolvedParameters = new Route<TName>(
+      this.rawRoute,
+      Object.fromEntries(
+        Object.entries(parameters).filter(([key]) => isValid(key)),
+      ) as RawRouteParameters<TName>,
+      this.options,
+    ).getParameters(defaults)
+
+    for (const { name, required } of segments.filter(({ name }) =>
+      isValid(name),
+    )) {
+      const value = get(resolvedParameters, name)
+
+      if (!isDefined(value) || value === null) {
+        if (required) {
+          issues.push({
+            code: 'missing_parameter',
+            parameter: name,
+            message: `"${name}" parameter is required for route "${this.name}"`,
+          })
+        }
+
+        continue
+      }
+
+      const where = wheres[name]
+
+      if (
+        where &&
+        !new RegExp(`^${required ? where : `(${where})?`}$`).test(String(value))
+      ) {
+        issues.push({
+          code: 'pattern_mismatch',
+          parameter: name,
+          message: `"${name}" parameter does not match required format "${where}" for route "${this.name}"`,
+        })
+      }
+    }
+
+    if (issues.length > 0) {
+      return {
+        success: false,
+        issues,
+      }
+    }
+
+    return {
+      success: true,
+      parameters: resolvedParameters,
+    }
+  }
+
   /**
    * Hydrate and return a complete URL for this route with the given parameters.
    */
@@ -0,0 +1,129 @@
+import Route from './Route'
+import {
+  RawRoute,
+  RawRouteParameters,
+  RawRoutes,
+  RouteMatch,
+  RouteMatchOptions,
+  RouteWheres,
+} from './types'
+import { isString } from './utilities'
+import { parse } from 'qs'
+
+type CompiledRoute = {
+  rawRoute: RawRoute
+  domain: RegExp | null
+  path: RegExp
+}
+
+export default class RouteRegistry {
+  public rawRoutes: RawRoutes
+
+  protected compiledRoutes: CompiledRoute[] | null = null
+
+  public constructor(rawRoutes: RawRoutes) {
+    this.rawRoutes = rawRoutes
+  }
+
+  /**
+   * Transform a template (e.g. `posts/{post}/{comment?}`) into a regular
+   * expression with named groups for each parameter segment
+   */
+  public static compile(template: string, wheres: RouteWheres = {}): RegExp {
+    const pattern = template
+      .split(/({[^}]+})/)
+      .map((part, index) => {
+        return index % 2 === 0
+          ? part.replace(/[.*+?^$()|[\]\\]/g, '\\$&')
+          : part
+      })
+      .join('')
+      .replace(/(\/?){([^}?]*)(\??)}/g, (_, slash, segment, optional) => {
+        const regex = `(?<${segment}>${
+          wheres[segment]?.replace(/(^\^)|(\$$)/g, '') || '[^/?]+'
+        })`
+
+        return optional ? `(${slash}${regex})?` : `${slash}${regex}`
+      })
+
+    return new RegExp(`^${pattern}/?$`)
+  }
+
+  public get(name: string): RawRoute | undefined {
+    return this.rawRoutes[name]
+  }
+
+  /**
+   * Find the first route that matches the given href and extract its
+   * parameters and query, e.g. `https://navigare.test/posts/1?page=2`
+   * is resolved to `posts.show` with `{ post: '1' }` and `{ page: '2' }`
+   */
+  public parse(
+    href: string | URL,
+    base: string | URL = window.location.href,
+    options: RouteMatchOptions = {},
+  ): RouteMatch | null {
+    const { method = 'GET' } = options
+    const url = new URL(href, base)
+    const baseURL = new URL(base)
+
+    for (const { rawRoute, domain, path } of this.getCompiledRoutes()) {
+      if (!rawRoute.methods.includes(method)) {
+        continue
+      }
+
+      // Routes without domain only match the current host
+      const domainMatches = domain
+        ? domain.exec(url.hostname)
+        : url.host === baseURL.host
+        ? ({} as RegExpExecArray)
+        : null
+
+      if (!domainMatches) {
+        continue
+      }
+
+      const pathMatches = path.exec(url.pathname)
+
+      if (!pathMatches) {
+        continue
+      }
+
+      const parameters = Object.fromEntries(
+        Object.entries({
+          ...domainMatches.groups,
+          ...pathMatches.groups,
+        })
+          .filter((entry): entry is [string, string] => isString(entry[1]))
+          .map(([key, value]) => [key, decodeURIComponent(value)]),
+      )
+
+      return {
+        route: new Route(rawRoute, parameters as RawRouteParameters, {
+          absolute: !!rawRoute.domain,
+        }),
+        parameters,
+        query: parse(url.search.substring(1)),
+      }
+    }
+
+    return null
+  }
+
+  protected getCompiledRoutes(): CompiledRoute[] {
+    // Compile lazily since most apps will never resolve an href
+    if (!this.compiledRoutes) {
+      this.compiledRoutes = Object.values(this.rawRoutes).map((rawRoute) => {
+        const { domain, uri, wheres } = rawRoute
+
+        return {
+          rawRoute,
+          domain: domain ? RouteRegistry.compile(domain, wheres) : null,
+          path: RouteRegistry.compile(`/${uri}`.replace(/\/+$/, ''), wheres),
+        }
+      })
+    }
+
+    return this.compiledRoutes
+  }
+}
@@ -1,5 +1,12 @@
-import PartialRoute from './PartialRoute'
+import Accessibility from './Accessibility'
+import AxiosTransport from './AxiosTransport'
+import MatchExpression from './MatchExpression'
+import OfflineQueue from './OfflineQueue'
+import PrefetchCache from './PrefetchCache'
+import PropertyCache from './PropertyCache'
 import Route from './Route'
+import RouteRegistry from './RouteRegistry'
+import TransportError from './TransportError'
 import {
   Redirect,
   RouteMethod,
@@ -11,18 +18,48 @@ import {
   VisitId,
   VisitOptions,
   RouterLocation,
+  MatchedRouterLocation,
   RouterOptions,
+  RouteMatch,
+  RouteMatchOptions,
+  MatchableRoute,
   RouteDefaults,
   RouterEvents,
   RouterEventListener,
   RawRouteMethod,
   Visit,
+  VersionChange,
   Component,
   RouterEventNames,
   RouterEventDetails,
   ResolvedRoutable,
   PropertyKey,
   RouterEventResult,
+  VisitPrefetchOptions,
+  Poll,
+  PollOptions,
+  PollSubscription,
+  PageStack,
+  RouterGuard,
+  RouterGuardContext,
+  VisitOptimisticUpdate,
+  VisitConcurrency,
+  OfflineVisit,
+  PageErrors,
+  VisitProgress,
+  Transport,
+  TransportResponse,
+  TransportProgressEvent,
+  LiveChannel,
+  LivePatch,
+  LiveSource,
+  PatchDocument,
+  PatchFormat,
+  JsonPatchOperation,
+  DeferredValue,
+  Properties,
+  TransitionDirection,
+  TransitionOptions,
 } from './types'
 import {
   isSSR,
@@ -41,20 +78,33 @@ import {
   transformPropertyKeys,
   transformPropertyKey,
   castArray,
+  isNotNull,
   cloneDeep,
   debounce,
   isObject,
   isString,
+  isArray,
   isDefined,
   clonePage,
+  resolveRetryOptions,
+  isRetryable,
+  getRetryDelay,
+  wait,
+  safe,
+  createProgressTracker,
+  createEventSource,
+  assignPageToFragments,
+  applyJsonPatch,
+  applyMergePatch,
+  parsePropertyHashes,
+  serializePropertyHashes,
+  getPageProperties,
+  isDeferred,
+  uniq,
+  supportsViewTransitions,
+  startViewTransition,
 } from './utilities'
-import {
-  default as Axios,
-  AxiosResponse,
-  AxiosResponseHeaders,
-  RawAxiosResponseHeaders,
-  AxiosStatic,
-} from 'axios'
+import Axios from 'axios'
 import { SetRequired } from 'type-fest'
 
 export default class Router<TComponentModule> {
@@ -62,6 +112,8 @@ export default class Router<TComponentModule> {
 
   protected activeVisit: Visit
 
+  protected activeVisits: Record<string, Visit[]> = {}
+
   protected internalPages: Page[] = []
 
   public get pages(): Page[] {
@@ -109,6 +161,20 @@ export default class Router<TComponentModule> {
     return this.page.location
   }
 
+  /**
+   * The pending change of the asset version in case the server reported one
+   */
+  public get versionChange(): VersionChange | null {
+    return this.internalVersionChange ? { ...this.internalVersionChange } : null
+  }
+
+  /**
+   * The direction of the latest navigation, e.g. to pick a transition
+   */
+  public get transitionDirection(): TransitionDirection {
+    return this.internalTransitionDirection
+  }
+
   protected emitter = createEmitter<RouterEvents>({
     before: {
       options: { cancelable: true },
@@ -123,25 +189,96 @@ export default class Router<TComponentModule> {
     finish: {},
     navigate: {},
     progress: {},
+    retry: {
+      options: { cancelable: true },
+    },
+    queued: {},
+    replayed: {},
+    replayFailed: {},
+    hashchange: {},
     start: {},
+    versionChange: {
+      options: { cancelable: true },
+    },
+    announce: {},
     success: {},
   })
 
   protected componentModules: Record<string, TComponentModule> = {}
 
-  public axios: AxiosStatic
+  protected prefetchCache: PrefetchCache
+
+  protected propertyCache: PropertyCache
+
+  protected polls: Record<string, Poll> = {}
+
+  protected channels: Record<string, LiveChannel> = {}
+
+  protected guards: RouterGuard[] = []
+
+  protected ignorePopstateEvent = false
+
+  protected offlineQueue: OfflineQueue | null = null
+
+  protected replaying = false
+
+  protected routes: RouteRegistry | null = null
+
+  protected internalVersionChange: VersionChange | null = null
+
+  protected patchDocument: PatchDocument | null = null
+
+  protected internalTransitionDirection: TransitionDirection = 'forward'
+
+  public accessibility: Accessibility | null = null
+
+  public transport: Transport
 
   public constructor(options: RouterOptions<TComponentModule>) {
-    const { initialPage, axios = Axios } = options
+    const { initialPage } = options
     this.options = options
+    this.prefetchCache = new PrefetchCache(options.prefetch)
+    this.propertyCache = new PropertyCache(options.propertyCache)
+    if (options.accessibility) {
+      this.accessibility = new Accessibility(
+        isObject(options.accessibility) ? options.accessibility : {},
+        async (page, message) => {
+          await this.emit('announce', {
+            page,
+            message,
+          })
+        },
+      )
+    }
+    if (options.routes) {
+      this.routes = new RouteRegistry(options.routes)
+    }
+    if (options.offline && OfflineQueue.isSupported()) {
+      this.offlineQueue = new OfflineQueue(
+        isObject(options.offline) ? options.offline : {},
+      )
+    }
     this.activeVisit = this.createVisit({
       location: initialPage.location,
     })
+
+    // Remember the previous stack before it gets overwritten by the initial page
+    const previousPageStack = this.loadPageStack()
+    const previousPage = isSSR()
+      ? undefined
+      : safeParse<Page>(window.history.state)
+
     this.setPage({
       ...initialPage,
       visit: this.activeVisit,
     })
-    this.axios = axios
+
+    // Requests are sent with axios unless the app opts into another transport
+    this.transport =
+      options.transport ?? new AxiosTransport(options.axios ?? Axios)
+
+    // Restore the stack of the session before a refresh
+    this.restorePageStack(previousPageStack, previousPage)
 
     // Handle initial page
     if (!isSSR()) {
@@ -171,6 +308,13 @@ export default class Router<TComponentModule> {
     this.on('error', options.events?.error)
     this.on('invalid', options.events?.invalid)
     this.on('exception', options.events?.exception)
+    this.on('retry', options.events?.retry)
+    this.on('queued', options.events?.queued)
+    this.on('replayed', options.events?.replayed)
+    this.on('replayFailed', options.events?.replayFailed)
+    this.on('hashchange', options.events?.hashchange)
+    this.on('versionChange', options.events?.versionChange)
+    this.on('announce', options.events?.announce)
 
     // Log exceptions by default
     this.on('exception', (event) => {
@@ -190,6 +334,142 @@ export default class Router<TComponentModule> {
       debounce(this.handleScrollEvent.bind(this), 100),
       true,
     )
+
+    document.addEventListener(
+      'visibilitychange',
+      this.handleVisibilityChangeEvent.bind(this),
+    )
+
+    window.addEventListener(
+      'beforeunload',
+      this.handleBeforeUnloadEvent.bind(this),
+    )
+
+    // Make sure that the latest stack is stored before the page is left
+    window.addEventListener('pagehide', () => {
+      this.savePageStack.flush()
+    })
+
+    // Send visits that were queued while being offline
+    window.addEventListener('online', () => {
+      this.replayOfflineQueue()
+    })
+    if (navigator.onLine) {
+      this.replayOfflineQueue()
+    }
+  }
+
+  protected handleBeforeUnloadEvent(event: BeforeUnloadEvent): void {
+    const allowed = this.runGuardsSync({
+      type: 'unload',
+      location: this.location,
+    })
+
+    // Browsers only allow to show their native confirmation dialog
+    if (!allowed) {
+      event.preventDefault()
+      event.returnValue = ''
+    }
+  }
+
+  public addGuard(guard: RouterGuard): () => void {
+    this.guards.push(guard)
+
+    return () => {
+      this.removeGuard(guard)
+    }
+  }
+
+  public removeGuard(guard: RouterGuard): void {
+    this.guards = this.guards.filter((currentGuard) => {
+      return currentGuard !== guard
+    })
+  }
+
+  protected async runGuards(context: RouterGuardContext): Promise<boolean> {
+    for (const guard of [...this.guards]) {
+      if ((await guard(context)) === false) {
+        return false
+      }
+    }
+
+    return true
+  }
+
+  protected runGuardsSync(context: RouterGuardContext): boolean {
+    return [...this.guards].every((guard) => {
+      const result = guard(context)
+
+      // Asynchronous guards cannot be awaited during unload, so leaving the
+      // page needs to be confirmed in that case
+      return result !== false && !(result instanceof Promise)
+    })
+  }
+
+  protected loadPageStack(): PageStack | undefined {
+    if (isSSR()) {
+      return undefined
+    }
+
+    return safe(() => {
+      return safeParse<PageStack>(
+        window.sessionStorage.getItem('navigarePageStack'),
+      )
+    })
+  }
+
+  protected savePageStack = debounce(() => {
+    if (isSSR()) {
+      return
+    }
+
+    safe(() => {
+      window.sessionStorage.setItem(
+        'navigarePageStack',
+        serialize({
+          pages: this.internalPages,
+          pageIndex: this.pageIndex,
+        }),
+      )
+    })
+  }, 100)
+
+  protected restorePageStack(
+    pageStack: PageStack | undefined,
+    previousPage: Page | undefined,
+  ): void {
+    if (!pageStack || !previousPage) {
+      return
+    }
+
+    const previousPageIndex = pageStack.pages.findIndex((page) => {
+      return page.visit.id === previousPage.visit.id
+    })
+
+    if (previousPageIndex < 0) {
+      return
+    }
+
+    // The initial page takes the place of the page that was refreshed
+    const page = this.internalPage
+    this.internalPages = pageStack.pages
+    this.pageIndex = previousPageIndex
+    this.internalPage = page
+
+    this.savePageStack()
+  }
+
+  protected handleVisibilityChangeEvent(): void {
+    if (document.hidden) {
+      return
+    }
+
+    // Catch up with polls that were skipped while the document was hidden
+    for (const [key, poll] of Object.entries(this.polls)) {
+      if (poll.due) {
+        this.runPoll(key)
+      }
+    }
   }
 
   protected scrollRegions(): NodeListOf<Element> {
@@ -261,6 +541,27 @@ export default class Router<TComponentModule> {
     })
   }
 
+  protected scrollToHash(
+    hash: string,
+    behavior: ScrollBehavior = 'smooth',
+  ): void {
+    if (isSSR()) {
+      return
+    }
+
+    const id = decodeURIComponent(hash.slice(1))
+    const element = id
+      ? document.getElementById(id) ?? document.getElementsByName(id)[0]
+      : null
+
+    // Scrolling the element into view also scrolls all scroll regions around it
+    if (element) {
+      element.scrollIntoView({ behavior })
+    } else if (!id || id.toLowerCase() === 'top') {
+      window.scrollTo({ top: 0, left: 0, behavior })
+    }
+  }
+
   protected isBackForwardVisit(): boolean {
     return (
       window.history.state &&
@@ -345,8 +646,8 @@ export default class Router<TComponentModule> {
   }
 
   protected isRedirectResponse(
-    response: AxiosResponse | undefined,
-  ): response is AxiosResponse<{}> {
+    response: TransportResponse | undefined,
+  ): response is TransportResponse<{}> {
     if (!response) {
       return false
     }
@@ -358,6 +659,64 @@ export default class Router<TComponentModule> {
     return true
   }
 
+  /**
+   * Laravel answers outdated clients like a location visit, but additionally
+   * tells the current version
+   */
+  protected isVersionChangeResponse(
+    response: TransportResponse | undefined,
+  ): response is TransportResponse<{}> {
+    if (!this.isRedirectResponse(response)) {
+      return false
+    }
+
+    return this.getHeader(response.headers, 'X-Navigare-Version') !== undefined
+  }
+
+  protected async handleVersionChange(
+    visit: Visit,
+    response: TransportResponse,
+  ): Promise<void> {
+    const versionChange: VersionChange = {
+      version: this.getHeader(response.headers, 'X-Navigare-Version') || null,
+      previousVersion: this.page.version,
+      location: this.createLocation(
+        this.getHeader(response.headers, 'X-Navigare-Location') ??
+          visit.location.href,
+        true,
+      ),
+    }
+    const strategy = this.options.versionStrategy ?? 'reload'
+
+    if (
+      !(await this.emit(
+        'versionChange',
+        {
+          ...versionChange,
+          visit,
+          strategy,
+        },
+        visit.events.versionChange,
+      ))
+    ) {
+      return
+    }
+
+    this.internalVersionChange = versionChange
+
+    // Only background visits like polls can wait for the next navigation
+    if (strategy === 'reload' || !visit.background) {
+      this.redirect(versionChange.location, visit.preserveScroll === true)
+    }
+  }
+
+  /**
+   * Reload the current page to apply a pending version change
+   */
+  public updateVersion(): void {
+    this.redirect(this.location, true)
+  }
+
   protected replacePage(location: RouterLocation, content: string): void {
     window.history.pushState(undefined, '', location.href)
 
@@ -367,8 +726,8 @@ export default class Router<TComponentModule> {
   }
 
   protected isNavigareResponse(
-    response: AxiosResponse | undefined,
-  ): response is AxiosResponse<Page> {
+    response: TransportResponse | undefined,
+  ): response is TransportResponse<Page> {
     if (!this.getHeader(response?.headers, 'X-Navigare')) {
       return false
     }
@@ -380,13 +739,11 @@ export default class Router<TComponentModule> {
     visitId: VisitId,
     interrupt = false,
   ): Promise<void> {
-    if (this.activeVisit?.id !== visitId) {
-      return
-    }
-
-    const { activeVisit: visit } = this
+    const visit = Object.values(this.activeVisits)
+      .flat()
+      .find((activeVisit) => activeVisit.id === visitId)
 
-    if (visit.completed || visit.cancelled) {
+    if (!visit || visit.completed || visit.cancelled) {
       return
     }
 
@@ -394,6 +751,7 @@ export default class Router<TComponentModule> {
     visit.completed = false
     visit.cancelled = true
     visit.interrupted = interrupt ? true : false
+    this.removeActiveVisit(visit)
 
     await this.emit(
       'cancel',
@@ -419,6 +777,7 @@ export default class Router<TComponentModule> {
     visit.completed = true
     visit.cancelled = false
     visit.interrupted = false
+    this.removeActiveVisit(visit)
 
     await this.emit(
       'finish',
@@ -429,6 +788,64 @@ export default class Router<TComponentModule> {
     )
   }
 
+  /**
+   * Check if there are visits pending for the given fragment
+   */
+  public isPending(fragmentName?: string): boolean {
+    return this.getActiveVisits(fragmentName).length > 0
+  }
+
+  protected getActiveVisits(fragmentName?: string): Visit[] {
+    return [...(this.activeVisits[fragmentName ?? 'default'] ?? [])]
+  }
+
+  protected addActiveVisit(visit: Visit): void {
+    const key = visit.fragmentName ?? 'default'
+    const visits = this.activeVisits[key] ?? []
+
+    if (visits.includes(visit)) {
+      return
+    }
+
+    this.activeVisits[key] = [...visits, visit]
+  }
+
+  protected removeActiveVisit(visit: Visit): void {
+    const key = visit.fragmentName ?? 'default'
+    const visits = (this.activeVisits[key] ?? []).filter((activeVisit) => {
+      return activeVisit.id !== visit.id
+    })
+
+    if (visits.length > 0) {
+      this.activeVisits[key] = visits
+    } else {
+      delete this.activeVisits[key]
+    }
+  }
+
+  protected getVisitConcurrency(fragmentName?: string): VisitConcurrency {
+    return (
+      this.options.fragments?.[fragmentName ?? 'default']?.concurrency ??
+      'cancel-previous'
+    )
+  }
+
+  protected waitForVisits(visits: Visit[]): Promise<void> {
+    return new Promise((resolve) => {
+      const resolveIfDone = () => {
+        if (!visits.every((visit) => visit.completed || visit.cancelled)) {
+          return
+        }
+
+        removeListener()
+        resolve()
+      }
+      const removeListener = this.emitter.on('finish', resolveIfDone)
+
+      resolveIfDone()
+    })
+  }
+
   protected resolvePreserveOption(
     value: VisitPreserveOption,
     page: Page,
@@ -459,6 +876,71 @@ export default class Router<TComponentModule> {
     history.back()
   }
 
+  /**
+   * Close the fragment at the given index of a stacked fragment like a modal
+   * along with all fragments above it and return to the page behind it
+   */
+  public async closeFragment(name: string, index?: number): Promise<void> {
+    const fragments = this.internalPage.fragments[name] ?? []
+    const closedIndex = index ?? fragments.length - 1
+
+    if (closedIndex < 0 || closedIndex >= fragments.length) {
+      return
+    }
+
+    const remainingFragments = fragments.slice(0, closedIndex)
+    const depth = remainingFragments.filter(isNotNull).length
+
+    // The page behind is either the one of the fragment below or the base page
+    const basePage = (
+      [...remainingFragments].reverse().find(isNotNull) ??
+      castArray(this.internalPage.fragments.default).find(isNotNull)
+    )?.page
+
+    // Return to the previous entry in case it already shows the page behind
+    const previousPage = this.internalPreviousPage
+    if (
+      basePage &&
+      previousPage?.location.href === basePage.location.href &&
+      castArray(previousPage.fragments[name]).filter(isNotNull).length === depth
+    ) {
+      await this.back()
+      return
+    }
+
+    // Otherwise restore the page behind without asking the server
+    const nextPage: Page = {
+      ...this.internalPage,
+      ...basePage,
+      visit: this.createVisit({
+        location: basePage?.location ?? this.location,
+        fragmentName: name,
+        completed: true,
+      }),
+      fragments: {
+        ...this.internalPage.fragments,
+        [name]: depth > 0 ? remainingFragments : null,
+      },
+      timestamp: Date.now(),
+    }
+
+    if (basePage) {
+      this.pushState(nextPage)
+    } else {
+      this.replaceState(nextPage, true)
+    }
+
+    await this.transition(basePage ? 'back' : null, async () => {
+      await this.emit('navigate', {
+        page: this.page,
+        visit: this.page.visit,
+        pages: this.internalPages,
+        pageIndex: this.pageIndex,
+        replace: !basePage,
+      })
+    })
+  }
+
   public async visit(
     routable: Routable,
     options: VisitOptions = {},
@@ -492,9 +974,13 @@ export default class Router<TComponentModule> {
       errorBag = '',
       events = {},
       background = false,
+      cache = true,
+      retry,
+      optimistic,
     } = options
 
     const visit: Visit = this.createVisit({
+      fragmentName,
       location,
       method,
       data,
@@ -507,6 +993,8 @@ export default class Router<TComponentModule> {
       errorBag,
       forceFormData,
       queryStringArrayFormat,
+      cache,
+      retry,
       events,
     })
 
@@ -522,14 +1010,86 @@ export default class Router<TComponentModule> {
       return visit
     }
 
+    // Same-document hash changes don't need a round trip to the server
+    if (this.isHashVisit(visit)) {
+      return await this.visitHash(visit)
+    }
+
+    // Let guards decide whether the current page may be left
+    if (
+      !visit.background &&
+      visit.location.href !== this.location.href &&
+      !(await this.runGuards({
+        type: 'visit',
+        location: visit.location,
+        visit,
+      }))
+    ) {
+      return visit
+    }
+
+    // Outdated clients load the next page from scratch to get the latest assets
+    if (
+      this.internalVersionChange &&
+      !visit.background &&
+      visit.method === RouteMethod.GET
+    ) {
+      this.redirect(visit.location, preserveScroll === true)
+      return visit
+    }
+
     if (!visit.background) {
-      if (this.activeVisit) {
-        this.cancelVisit(this.activeVisit.id, true)
+      const pendingVisits = this.getActiveVisits(fragmentName)
+
+      // Resolve visits that are still pending for the same fragment
+      switch (this.getVisitConcurrency(fragmentName)) {
+        case 'ignore-new':
+          if (pendingVisits.length > 0) {
+            visit.cancelled = true
+
+            await this.emit(
+              'cancel',
+              {
+                visit,
+              },
+              events?.cancel,
+            )
+            await this.emit(
+              'finish',
+              {
+                visit,
+              },
+              events?.finish,
+            )
+            return visit
+          }
+          break
+        case 'queue':
+          // Register the visit while waiting so later visits queue behind it
+          this.addActiveVisit(visit)
+          await this.waitForVisits(pendingVisits)
+
+          if (visit.cancelled) {
+            return visit
+          }
+          break
+        case 'parallel':
+          break
+        default:
+          pendingVisits.forEach((pendingVisit) => {
+            this.cancelVisit(pendingVisit.id, true)
+          })
       }
 
       this.saveScrollPositions()
 
-      visit.cancelToken = Axios.CancelToken.source()
+      const abortController = new AbortController()
+      visit.cancelToken = {
+        signal: abortController.signal,
+        cancel: () => {
+          abortController.abort()
+        },
+      }
       visit.cancel = () => {
         this.cancelVisit(visit.id)
       }
@@ -538,8 +1098,14 @@ export default class Router<TComponentModule> {
       }
 
       this.activeVisit = visit
+      this.addActiveVisit(visit)
     }
 
+    // Show the expected result right away and undo it in case the visit fails
+    const rollback = optimistic
+      ? await this.applyOptimisticUpdate(optimistic)
+      : undefined
+
     await this.emit(
       'start',
       {
@@ -548,81 +1114,80 @@ export default class Router<TComponentModule> {
       events?.start,
     )
 
-    try {
-      const response = await this.axios({
-        method,
-
-        url: location.href,
-
-        data: method === RouteMethod.GET ? {} : data,
-
-        params: method === RouteMethod.GET ? data : {},
-
-        cancelToken: visit.cancelToken?.token,
-
-        headers: {
-          ...headers,
-          Accept: 'text/html, application/xhtml+xml',
-          'X-Requested-With': 'XMLHttpRequest',
-          'X-Navigare': true,
-          ...(properties.length
-            ? {
-                'X-Navigare-Properties': properties,
-              }
-            : {}),
-          ...(errorBag && errorBag.length
-            ? { 'X-Navigare-Error-Bag': errorBag }
-            : {}),
-          ...(this.page.version
-            ? { 'X-Navigare-Version': this.page.version }
-            : {}),
-        },
+    // Mutations might change any page so previously fetched responses and
+    // cached properties are outdated
+    if (method !== RouteMethod.GET) {
+      this.prefetchCache.clear()
+      this.propertyCache.clear()
+    }
 
-        onUploadProgress: async (progress) => {
-          if (!(data instanceof FormData)) {
-            return
-          }
+    try {
+      // Store mutating visits while being offline to send them later on
+      if (this.shouldQueueVisit(visit)) {
+        await this.queueVisit(visit, options.data ?? {})
+        this.finishVisit(visit)
+        return visit
+      }
 
+      const cachedResponse =
+        visit.cache && !visit.background
+          ? await this.getPrefetchedResponse(visit)
+          : undefined
+      const response =
+        cachedResponse?.response ??
+        (await this.retryRequest(visit, async (progress) => {
           await this.emit(
             'progress',
             {
               visit,
-              progress: {
-                ...progress,
-                percentage: progress.total
-                  ? Math.round((100 * progress.loaded) / progress.total)
-                  : undefined,
-              },
+              progress,
             },
             events?.progress,
           )
-        },
-      })
+        }))
+
+      // Refresh stale responses once the cached page is shown
+      if (cachedResponse?.stale) {
+        setTimeout(() => {
+          this.revalidate(visit, fragmentName)
+        }, 0)
+      }
 
       // Catch invalid responses and let user influence the result via events
-      if (!this.isNavigareResponse(response)) {
+      let pageResponse: TransportResponse<Page>
+      if (this.isNavigareResponse(response)) {
+        pageResponse = response
+      } else {
         const data = await this.emit(
           'invalid',
           {
             visit,
+            location: this.createLocation(
+              response.url || visit.location.href,
+              true,
+            ),
             response,
           },
           events?.invalid,
         )
 
         if (!data) {
-          this.replacePage(visit.location, response.data)
+          this.replacePage(visit.location, String(response.data))
+          this.finishVisit(visit)
           return visit
         }
 
-        response.data = data
+        pageResponse = {
+          ...response,
+          data,
+        }
       }
 
       if (!visit.background) {
         // Prepare next page
         const nextPage: Page = {
-          timestamp: Date.now(),
-          ...response.data,
+          ...pageResponse.data,
+          timestamp: pageResponse.data.timestamp ?? Date.now(),
           visit,
         }
 
@@ -664,12 +1229,14 @@ export default class Router<TComponentModule> {
             }),
           )
 
+          await rollback?.()
+
           await this.emit(
             'error',
             {
               visit,
               errors: scopedErrors,
-              response: response,
+              response: pageResponse,
             },
             events?.error,
           )
@@ -679,7 +1246,7 @@ export default class Router<TComponentModule> {
             {
               visit,
               page: this.page,
-              response: response,
+              response: pageResponse,
             },
             events?.success,
           )
@@ -690,7 +1257,7 @@ export default class Router<TComponentModule> {
           {
             visit,
             page: this.page,
-            response: response,
+            response: pageResponse,
           },
           events?.success,
         )
@@ -698,10 +1265,17 @@ export default class Router<TComponentModule> {
     } catch (error) {
       let throwException = true
 
-      if (Axios.isAxiosError(error)) {
+      // Cancelled visits have already been reported via their cancel event
+      if (TransportError.isCancel(error)) {
+        await rollback?.()
+        throwException = false
+      } else if (error instanceof TransportError) {
         const { response } = error
 
-        if (this.isRedirectResponse(response)) {
+        if (this.isVersionChangeResponse(response)) {
+          await this.handleVersionChange(visit, response)
+          throwException = false
+        } else if (this.isRedirectResponse(response)) {
           const redirectHref = String(
             this.getHeader(response.headers, 'X-Navigare-Location'),
           )
@@ -713,7 +1287,7 @@ export default class Router<TComponentModule> {
           }
 
           // In case the redirect location points to the current location, we will restore the hash
-          const redirectLocation = this.createLocation(redirectHref)
+          const redirectLocation = this.createLocation(redirectHref, true)
           if (
             location.hash &&
             !redirectLocation.hash &&
@@ -734,6 +1308,8 @@ export default class Router<TComponentModule> {
           this.redirect(redirectLocation, preserveScroll === true)
           throwException = false
         } else if (visit.background) {
+          await rollback?.()
+
           await this.emit(
             'error',
             {
@@ -750,6 +1326,8 @@ export default class Router<TComponentModule> {
       }
 
       if (throwException) {
+        await rollback?.()
+
         await this.emit(
           'exception',
           {
@@ -766,16 +1344,562 @@ export default class Router<TComponentModule> {
     return visit
   }
 
-  protected getHeader(
-    headers: RawAxiosResponseHeaders | AxiosResponseHeaders | undefined,
-    name: string,
-  ): string | string[] | number | boolean | null | undefined {
-    if (!headers) {
-      return undefined
+  protected shouldQueueVisit(visit: Visit): boolean {
+    return (
+      !!this.offlineQueue &&
+      !this.replaying &&
+      visit.method !== RouteMethod.GET &&
+      !navigator.onLine
+    )
+  }
+
+  protected async queueVisit(visit: Visit, data: VisitData): Promise<void> {
+    if (!this.offlineQueue) {
+      return
     }
 
-    return headers[name.toLowerCase()]
-  }
+    // Files are sent as POST requests so we need to restore the original method
+    const spoofedMethod =
+      visit.data instanceof FormData ? visit.data.get('_method') : null
+    const method = isString(spoofedMethod)
+      ? mapRouteMethod(spoofedMethod as RawRouteMethod)
+      : visit.method
+    const serializedData = OfflineQueue.serialize(data)
+    if (serializedData.type === 'form-data') {
+      serializedData.entries = serializedData.entries.filter(([name]) => {
+        return name !== '_method'
+      })
+    }
+
+    const entry = await this.offlineQueue.add({
+      timestamp: Date.now(),
+      href: visit.location.href,
+      method,
+      data: serializedData,
+      headers: visit.headers,
+      properties: visit.properties,
+      errorBag: visit.errorBag,
+      fragmentName: visit.fragmentName,
+    })
+
+    await this.emit(
+      'queued',
+      {
+        visit,
+        entry,
+      },
+      visit.events.queued,
+    )
+  }
+
+  /**
+   * Send all queued visits in the order they were made
+   */
+  public async replayOfflineQueue(): Promise<void> {
+    if (!this.offlineQueue || this.replaying) {
+      return
+    }
+
+    this.replaying = true
+
+    try {
+      for (const entry of await this.offlineQueue.all()) {
+        if (!navigator.onLine || !(await this.replayVisit(entry))) {
+          break
+        }
+      }
+    } finally {
+      this.replaying = false
+    }
+  }
+
+  /**
+   * Replay a single visit and return whether the queue can proceed
+   */
+  protected async replayVisit(entry: OfflineVisit): Promise<boolean> {
+    let errors: PageErrors = {}
+    let failed = false
+    let response = undefined as TransportResponse | undefined
+
+    const visit = await this.visit(entry.href, {
+      method: entry.method,
+      data: OfflineQueue.deserialize(entry.data),
+      headers: entry.headers,
+      properties: entry.properties,
+      errorBag: entry.errorBag,
+      fragmentName: entry.fragmentName,
+      background: true,
+      cache: false,
+      events: {
+        success: (event) => {
+          // Background visits keep the current page, so the errors are only
+          // part of the response
+          response = event.detail.response
+          errors = event.detail.response.data.properties.__errors ?? {}
+        },
+        error: (event) => {
+          response = event.detail.response
+          errors = event.detail.errors
+          failed = true
+        },
+      },
+    })
+
+    // Keep the visit in case the server could not be reached
+    if (!response) {
+      await this.emit('replayFailed', {
+        visit,
+        entry,
+        errors,
+        response,
+      })
+
+      return false
+    }
+
+    // Visits the server answered are dropped either way, since sending them
+    // again would most likely be rejected the same way
+    await this.offlineQueue?.delete(entry.id)
+
+    const { status } = response
+    if (
+      failed ||
+      status < 200 ||
+      status >= 300 ||
+      Object.keys(errors).length > 0
+    ) {
+      await this.emit('replayFailed', {
+        visit,
+        entry,
+        errors,
+        response,
+      })
+    } else {
+      await this.emit('replayed', {
+        visit,
+        entry,
+      })
+    }
+
+    return true
+  }
+
+  protected async applyOptimisticUpdate(
+    update: VisitOptimisticUpdate,
+  ): Promise<() => Promise<void>> {
+    const snapshot = cloneDeep(this.internalPage.properties)
+    const patch = update(cloneDeep(snapshot))
+
+    await this.updateProperties({
+      ...snapshot,
+      ...(patch as Page['properties']),
+    })
+
+    return async () => {
+      // Only restore the properties that were changed optimistically so
+      // that properties received in the meantime are kept
+      const properties = { ...this.internalPage.properties }
+
+      for (const key of getKeys(patch)) {
+        if (key in snapshot) {
+          properties[key] = snapshot[key]
+        } else {
+          delete properties[key]
+        }
+      }
+
+      await this.updateProperties(properties)
+    }
+  }
+
+  protected async updateProperties(
+    properties: Page['properties'],
+  ): Promise<void> {
+    this.replaceState(
+      {
+        ...this.internalPage,
+        properties,
+      },
+      true,
+    )
+
+    await this.emit('navigate', {
+      page: this.page,
+      visit: this.page.visit,
+      pages: this.internalPages,
+      pageIndex: this.pageIndex,
+      replace: true,
+    })
+  }
+
+  protected async request(
+    visit: Visit,
+    onProgress?: (progress: VisitProgress) => void,
+    allowPatch = true,
+  ): Promise<TransportResponse> {
+    const { method, location, data, properties, headers, errorBag } = visit
+
+    // Uploads and downloads are tracked separately since they happen one after another
+    const trackUploadProgress = createProgressTracker()
+    const trackDownloadProgress = createProgressTracker()
+
+    // The server may answer with a patch against the page the client knows
+    const patchDocument = allowPatch ? this.getPatchDocument(visit) : undefined
+
+    // Cached properties don't need to be sent again, no matter which page
+    // received them before
+    const cachedKeys = this.propertyCache.keys()
+
+    const response = await this.transport.request({
+      method,
+
+      url: location.href,
+
+      data: method === RouteMethod.GET ? undefined : data,
+
+      signal: visit.cancelToken?.signal,
+
+      headers: {
+        ...headers,
+        Accept: 'text/html, application/xhtml+xml',
+        'X-Requested-With': 'XMLHttpRequest',
+        'X-Navigare': true,
+        ...(properties.length
+          ? {
+              'X-Navigare-Properties': properties,
+            }
+          : {}),
+        ...(errorBag && errorBag.length
+          ? { 'X-Navigare-Error-Bag': errorBag }
+          : {}),
+        ...(this.page.version
+          ? { 'X-Navigare-Version': this.page.version }
+          : {}),
+        ...(cachedKeys.length
+          ? {
+              'X-Navigare-Cached': cachedKeys,
+            }
+          : {}),
+        ...(patchDocument
+          ? {
+              'X-Navigare-Property-Hashes': serializePropertyHashes(
+                patchDocument.propertyHashes,
+              ),
+            }
+          : {}),
+      },
+
+      onUploadProgress: onProgress
+        ? (progress: TransportProgressEvent) => {
+            onProgress(trackUploadProgress(progress))
+          }
+        : undefined,
+
+      onDownloadProgress: onProgress
+        ? (progress: TransportProgressEvent) => {
+            onProgress(trackDownloadProgress(progress))
+          }
+        : undefined,
+    })
+
+    try {
+      return this.resolvePatchResponse(visit, response, patchDocument)
+    } catch (error) {
+      if (!patchDocument) {
+        throw error
+      }
+
+      // The patch doesn't fit anymore, so we ask for the full page instead
+      return await this.request(visit, onProgress, false)
+    }
+  }
+
+  protected isPartialVisit(visit: Visit): boolean {
+    return (
+      visit.properties.length > 0 || !!visit.headers['X-Navigare-Properties']
+    )
+  }
+
+  protected getPatchDocument(visit: Visit): PatchDocument | undefined {
+    // Partial reloads are answered without patches as they are small anyway
+    if (
+      visit.method !== RouteMethod.GET ||
+      this.isPartialVisit(visit) ||
+      this.patchDocument?.href !== visit.location.href
+    ) {
+      return undefined
+    }
+
+    return this.patchDocument
+  }
+
+  protected resolvePatchResponse(
+    visit: Visit,
+    response: TransportResponse,
+    patchDocument: PatchDocument | undefined,
+  ): TransportResponse {
+    if (!this.isNavigareResponse(response)) {
+      return response
+    }
+
+    const format = this.getHeader(response.headers, 'X-Navigare-Patch') as
+      | PatchFormat
+      | undefined
+
+    if (format) {
+      if (!patchDocument) {
+        throw new Error('Received a patch without having sent property hashes')
+      }
+
+      response.data =
+        format === 'merge-patch'
+          ? applyMergePatch(patchDocument.page, response.data)
+          : applyJsonPatch(
+              patchDocument.page,
+              response.data as unknown as JsonPatchOperation[],
+            )
+    }
+
+    // Partial reloads don't contain the whole document the hashes belong to
+    if (this.isPartialVisit(visit)) {
+      return response
+    }
+
+    // Keep the page as sent by the server since the client modifies it later
+    // on, e.g. by merging properties
+    const propertyHashes = parsePropertyHashes(
+      this.getHeader(response.headers, 'X-Navigare-Property-Hashes'),
+    )
+    this.patchDocument = propertyHashes
+      ? {
+          href: response.url,
+          page: cloneDeep(response.data),
+          propertyHashes,
+        }
+      : null
+
+    return response
+  }
+
+  protected async retryRequest(
+    visit: Visit,
+    onProgress?: (progress: VisitProgress) => void,
+  ): Promise<TransportResponse> {
+    const retry = resolveRetryOptions(this.options.retry, visit.retry)
+
+    for (;;) {
+      try {
+        return await this.request(visit, onProgress)
+      } catch (error) {
+        if (
+          !retry ||
+          visit.cancelled ||
+          visit.attempts >= retry.attempts ||
+          !(error instanceof TransportError) ||
+          error.cancelled ||
+          !isRetryable(visit.method, error.response?.status, retry)
+        ) {
+          throw error
+        }
+
+        visit.attempts++
+        const delay = getRetryDelay(visit.attempts, retry)
+
+        // Listeners can prevent the retry, e.g. when the user gave up
+        if (
+          !(await this.emit(
+            'retry',
+            {
+              visit,
+              attempt: visit.attempts,
+              delay,
+              error,
+            },
+            visit.events.retry,
+          ))
+        ) {
+          throw error
+        }
+
+        await wait(delay)
+
+        // The visit might have been cancelled while we were waiting
+        if (visit.cancelled) {
+          throw new TransportError('Request was cancelled', error.request, {
+            cancelled: true,
+          })
+        }
+      }
+    }
+  }
+
+  public async prefetch(
+    routable: Routable,
+    options: VisitPrefetchOptions = {},
+  ): Promise<void> {
+    const {
+      forceFormData = false,
+      queryStringArrayFormat = QueryStringArrayFormat.Indices,
+      force = false,
+      ttl,
+      stale,
+    } = options
+    const {
+      location,
+      method,
+      data,
+      options: routeOptions = {},
+    } = this.resolveRoutable(routable, options.data, {
+      method: options.method,
+      forceFormData,
+      queryStringArrayFormat,
+    })
+
+    // Only responses of safe requests can be reused
+    if (isSSR() || method !== RouteMethod.GET) {
+      return
+    }
+
+    const visit = this.createVisit({
+      location,
+      method,
+      data,
+      properties: options.properties ?? routeOptions.properties ?? [],
+      headers: options.headers ?? routeOptions.headers ?? {},
+      forceFormData,
+      queryStringArrayFormat,
+      background: true,
+    })
+
+    if (!force && this.prefetchCache.has(this.getPrefetchKey(visit))) {
+      return
+    }
+
+    await this.fetchPrefetchedResponse(visit, {
+      ttl,
+      stale,
+    })
+  }
+
+  public clearPrefetchCache(): void {
+    this.prefetchCache.clear()
+  }
+
+  protected getPrefetchKey(visit: Visit): string {
+    return PrefetchCache.createKey(
+      visit.method,
+      visit.location.href,
+      visit.headers['X-Navigare-Properties'] ?? visit.properties,
+    )
+  }
+
+  protected async fetchPrefetchedResponse(
+    visit: Visit,
+    options: VisitPrefetchOptions = {},
+  ): Promise<TransportResponse<Page> | undefined> {
+    const key = this.getPrefetchKey(visit)
+    const pendingRequest = this.prefetchCache.getPending(key)
+
+    if (pendingRequest) {
+      return await pendingRequest
+    }
+
+    return await this.prefetchCache.setPending(
+      key,
+      (async () => {
+        try {
+          const response = await this.request(visit)
+
+          if (!this.isNavigareResponse(response)) {
+            return undefined
+          }
+
+          this.prefetchCache.set(key, response, options)
+
+          // Warm up the components so the page can be rendered right away
+          await this.resolvePage(response.data)
+
+          return response
+        } catch (error) {
+          return undefined
+        }
+      })(),
+    )
+  }
+
+  protected async getPrefetchedResponse(visit: Visit): Promise<
+    | {
+        response: TransportResponse<Page>
+        stale: boolean
+      }
+    | undefined
+  > {
+    if (visit.method !== RouteMethod.GET) {
+      return undefined
+    }
+
+    const key = this.getPrefetchKey(visit)
+
+    // Wait for a prefetch that is still running
+    await this.prefetchCache.getPending(key)
+
+    const hit = this.prefetchCache.get(key)
+
+    if (!hit) {
+      return undefined
+    }
+
+    // Pages are mutated while merging so we always hand out a copy
+    return {
+      response: {
+        ...hit.response,
+        data: cloneDeep(hit.response.data),
+      },
+      stale: hit.stale,
+    }
+  }
+
+  protected async revalidate(
+    visit: Visit,
+    fragmentName?: string,
+  ): Promise<void> {
+    this.prefetchCache.delete(this.getPrefetchKey(visit))
+
+    const response = await this.fetchPrefetchedResponse({
+      ...visit,
+      cancelToken: undefined,
+    })
+
+    // Only update the page if the user did not navigate in the meantime
+    if (!response || this.page.visit.id !== visit.id) {
+      return
+    }
+
+    await this.setPage(
+      {
+        ...cloneDeep(response.data),
+        timestamp: Date.now(),
+        visit,
+      },
+      {
+        replace: true,
+        preserveScroll: true,
+        preserveState: true,
+        fragmentName,
+      },
+    )
+  }
+
+  protected getHeader(
+    headers: Record<string, string> | undefined,
+    name: string,
+  ): string | undefined {
+    if (!headers) {
+      return undefined
+    }
+
+    return headers[name.toLowerCase()]
+  }
 
   protected async setPage(
     page: Page,
@@ -821,17 +1945,27 @@ export default class Router<TComponentModule> {
     const nextPage = mergePages(
       this.page,
       transformPagePropertyKeys(
-        pageWithBase,
+        this.propertyCache.resolve(pageWithBase),
         this.transformServerPropertyKey.bind(this),
       ),
       fragments,
+      // Only partial reloads extend the current properties, e.g. to load more
+      page.visit?.properties.length ? this.options.mergeStrategies ?? {} : null,
     )
 
+    // Remember the keys of deferred properties so they can be loaded later on
+    for (const [key, property] of Object.entries(getPageProperties(nextPage))) {
+      if (isDeferred(property)) {
+        property.__key = key
+      }
+    }
+
     // Reuse or initialize scroll regions and state
     nextPage.scrollRegions = nextPage.scrollRegions || []
     nextPage.rememberedState = nextPage.rememberedState || {}
 
     // Either replace the current state or push the next state
+    let direction: TransitionDirection | null = null
     if (
       initialVisit ||
       replace ||
@@ -847,45 +1981,96 @@ export default class Router<TComponentModule> {
       this.back()
     } else {
       this.pushState(nextPage)
+      direction = 'forward'
     }
 
-    // Reset scroll if requested
-    if (!preserveScroll) {
-      this.resetScrollPositions()
+    await this.transition(direction, async () => {
+      // Reset scroll if requested
+      if (!preserveScroll) {
+        this.resetScrollPositions()
+      }
+
+      // Inform listeners about new page
+      if (!initialVisit) {
+        await this.emit('navigate', {
+          page: this.page,
+          visit: this.page.visit,
+          pages: this.internalPages,
+          pageIndex: this.pageIndex,
+          replace,
+        })
+      }
+    })
+
+    // Load deferred properties in the background unless they wait to be seen
+    const deferredKeys = Object.entries(getDeferredPageProperties(this.page))
+      .filter(([, property]) => !property.__lazy)
+      .map(([key]) => key)
+    if (!isSSR() && deferredKeys.length > 0) {
+      setTimeout(() => {
+        this.loadDeferred(deferredKeys)
+      }, 1)
     }
 
-    // Inform listeners about new page
-    if (!initialVisit) {
-      await this.emit('navigate', {
-        page: this.page,
-        visit: this.page.visit,
-        pages: this.internalPages,
-        pageIndex: this.pageIndex,
-        replace,
-      })
+    return nextPage
+  }
+
+  /**
+   * Wrap the update of the DOM in a view transition in case transitions are
+   * enabled and the browser supports them
+   */
+  protected async transition(
+    direction: TransitionDirection | null,
+    update: () => Promise<void>,
+  ): Promise<void> {
+    // Replaced pages like reloads only update the current page
+    if (direction) {
+      this.internalTransitionDirection = direction
     }
 
-    // Load deferred properties in the background
-    const deferredProperties = getDeferredPageProperties(this.page)
-    if (!isSSR() && getKeys(deferredProperties).length > 0) {
-      setTimeout(() => {
-        for (const [, property] of Object.entries(deferredProperties)) {
-          if (property) {
-            property.__requested = true
-          }
-        }
+    if (!direction || !this.options.transitions || !supportsViewTransitions()) {
+      await update()
+      await this.manageFocus(direction)
+      return
+    }
+
+    const { render = () => wait(0) }: TransitionOptions = isObject(
+      this.options.transitions,
+    )
+      ? this.options.transitions
+      : {}
+    const { dataset } = document.documentElement
+    dataset.navigareTransition = direction
+
+    const transition = startViewTransition(async () => {
+      await update()
+      await render()
+    })
+
+    const cleanup = () => {
+      delete dataset.navigareTransition
+    }
+    transition.finished.then(cleanup, cleanup)
 
-        this.reload({
-          headers: {
-            'X-Navigare-Properties': getKeys(deferredProperties)
-              .map((property) => this.transformClientPropertyKey(property))
-              .join(','),
-          },
-        })
-      }, 1)
+    await transition.updateCallbackDone
+    await this.manageFocus(direction)
+  }
+
+  /**
+   * Move the focus and announce the page once navigated to it
+   */
+  protected async manageFocus(
+    direction: TransitionDirection | null,
+  ): Promise<void> {
+    if (!direction || !this.accessibility) {
+      return
     }
 
-    return nextPage
+    await this.accessibility.handleNavigate(
+      this.page,
+      this.previousPage,
+      direction,
+    )
   }
 
   protected pushState(page: Page): void {
@@ -895,8 +2080,10 @@ export default class Router<TComponentModule> {
     this.internalPages[this.pageIndex] = page
 
     if (!isSSR()) {
-      window.history.pushState(serialize(page), '', page.location.href)
+      window.history.pushState(serialize(page), '', this.getHistoryURL(page))
     }
+
+    this.savePageStack()
   }
 
   protected replaceState(page: Page, preserveURL: boolean = false): void {
@@ -907,9 +2094,89 @@ export default class Router<TComponentModule> {
       window.history.replaceState(
         serialize(page),
         '',
-        preserveURL ? undefined : page.location.href,
+        preserveURL ? undefined : this.getHistoryURL(page),
       )
     }
+
+    this.savePageStack()
+  }
+
+  protected getHistoryURL(page: Page): string {
+    return `${page.location.href}${page.location.hash}`
+  }
+
+  protected isHashVisit(visit: Visit): boolean {
+    return (
+      !isSSR() &&
+      visit.method === RouteMethod.GET &&
+      !visit.background &&
+      visit.properties.length === 0 &&
+      !!visit.location.hash &&
+      visit.location.href === this.location.href
+    )
+  }
+
+  protected async visitHash(visit: Visit): Promise<Visit> {
+    const previousHash = this.location.hash
+    const { hash } = visit.location
+
+    if (hash !== previousHash) {
+      // Remember the scroll regions of the entry we are about to leave
+      this.saveScrollPositions()
+
+      // The new entry shares the visit of the current page so that
+      // fragments are not rendered again
+      const nextPage: Page = {
+        ...this.page,
+        location: {
+          ...this.location,
+          hash,
+        },
+      }
+
+      if (visit.replace) {
+        this.replaceState(nextPage)
+      } else {
+        this.pushState(nextPage)
+      }
+    }
+
+    if (!visit.preserveScroll) {
+      this.scrollToHash(hash)
+    }
+
+    visit.completed = true
+
+    await this.emit(
+      'hashchange',
+      {
+        visit,
+        hash,
+        previousHash,
+      },
+      visit.events?.hashchange,
+    )
+
+    return visit
+  }
+
+  protected findPageIndex(page: Page): number {
+    // Hash changes create several entries for the same visit, so we pick
+    // the one closest to the current page index
+    return this.internalPages.reduce((closestIndex, currentPage, index) => {
+      if (
+        currentPage.visit.id !== page.visit.id ||
+        currentPage.location.hash !== page.location.hash
+      ) {
+        return closestIndex
+      }
+
+      return closestIndex < 0 ||
+        Math.abs(index - this.pageIndex) <
+          Math.abs(closestIndex - this.pageIndex)
+        ? index
+        : closestIndex
+    }, -1)
   }
 
   protected getComponentId(component: Component): string {
@@ -981,39 +2248,154 @@ export default class Router<TComponentModule> {
     const nextPage = safeParse<Page>(event.state)
 
     if (!nextPage) {
+      // Plain anchors change the hash natively and create an entry without state
+      if (
+        this.createLocation(window.location.href).href === this.location.href
+      ) {
+        await this.adoptHashEntry()
+        return
+      }
+
       history.back()
       return
     }
 
-    // Cancel pending visit
-    if (this.activeVisit) {
-      this.cancelVisit(this.activeVisit.id, true)
+    // Skip the event that was caused by restoring the location
+    if (this.ignorePopstateEvent) {
+      this.ignorePopstateEvent = false
+      return
+    }
+
+    // Entries that only differ in their hash still show the current page
+    if (
+      nextPage.visit.id === this.page.visit.id &&
+      nextPage.location.href === this.location.href
+    ) {
+      const previousHash = this.location.hash
+      const nextPageIndex = this.findPageIndex(nextPage)
+
+      if (nextPageIndex >= 0) {
+        this.pageIndex = nextPageIndex
+      } else {
+        this.internalPage = nextPage
+      }
+
+      this.savePageStack()
+      this.restoreScrollPositions()
+
+      await this.emit('hashchange', {
+        visit: this.page.visit,
+        hash: nextPage.location.hash,
+        previousHash,
+      })
+      return
+    }
+
+    // Let guards decide whether the current page may be left
+    if (
+      !(await this.runGuards({
+        type: 'history',
+        location: nextPage.location,
+      }))
+    ) {
+      this.restoreLocation(nextPage)
+      return
     }
 
+    // Cancel pending visits of all fragments
+    Object.values(this.activeVisits)
+      .flat()
+      .forEach((visit) => {
+        this.cancelVisit(visit.id, true)
+      })
+
+    // Remember the version and position of the page that is currently shown
+    const { version } = this.page
+    const previousPageIndex = this.pageIndex
+
     // Try to find page via visit id
-    const nextPageIndex = nextPage
-      ? this.internalPages.findIndex((page) => {
-          return page.visit.id === nextPage.visit.id
-        })
-      : -1
+    const nextPageIndex = this.findPageIndex(nextPage)
 
     // In case we cannot find it, it belongs to a session before a refresh
+    // whose stack could not be restored so we start a new stack
     if (nextPageIndex < 0) {
-      window.location.reload()
-      /*this.replaceState(nextPage)
-      this.resetScrollPositions()*/
+      this.internalPages = [nextPage]
+      this.pageIndex = 0
     } else {
       this.pageIndex = nextPageIndex
+    }
 
-      this.restoreScrollPositions()
+    this.savePageStack()
+
+    // Pages of an outdated version cannot be rendered safely anymore
+    if (this.page.version !== version) {
+      await this.reload()
+      return
     }
 
-    await this.emit('navigate', {
+    await this.resolvePage(this.page)
+
+    await this.transition(
+      nextPageIndex >= 0 && nextPageIndex > previousPageIndex
+        ? 'forward'
+        : 'back',
+      async () => {
+        await this.emit('navigate', {
+          visit: this.page.visit,
+          page: this.page,
+          pageIndex: this.pageIndex,
+          pages: this.internalPages,
+          replace: false,
+        })
+
+        this.restoreScrollPositions()
+      },
+    )
+  }
+
+  protected restoreLocation(page: Page): void {
+    const pageIndex = this.findPageIndex(page)
+
+    // Travel back to the current page in case we know the distance
+    if (pageIndex >= 0 && pageIndex !== this.pageIndex) {
+      this.ignorePopstateEvent = true
+      window.history.go(this.pageIndex - pageIndex)
+      return
+    }
+
+    window.history.pushState(
+      serialize(this.page),
+      '',
+      this.getHistoryURL(this.page),
+    )
+  }
+
+  protected async adoptHashEntry(): Promise<void> {
+    const previousHash = this.location.hash
+    const { hash } = window.location
+    const nextPage: Page = {
+      ...this.page,
+      location: {
+        ...this.location,
+        hash,
+      },
+    }
+
+    // The browser already created the entry so we only keep track of it
+    this.pageIndex++
+    this.internalPages.length = this.pageIndex + 1
+    this.internalPages[this.pageIndex] = nextPage
+    window.history.replaceState(
+      serialize(nextPage),
+      '',
+      this.getHistoryURL(nextPage),
+    )
+    this.savePageStack()
+
+    await this.emit('hashchange', {
       visit: this.page.visit,
-      page: this.page,
-      pageIndex: this.pageIndex,
-      pages: this.internalPages,
-      replace: false,
+      hash,
+      previousHash,
     })
   }
 
@@ -1022,12 +2404,375 @@ export default class Router<TComponentModule> {
   ): Promise<Visit> {
     return await this.visit(this.location.href, {
       ...options,
+      cache: false,
       replace: true,
       preserveScroll: true,
       preserveState: true,
     })
   }
 
+  public poll(interval: number, options: PollOptions = {}): () => void {
+    const { properties = [], hidden = false } = options
+
+    if (isSSR()) {
+      return () => undefined
+    }
+
+    // Polls of the same properties share one timer
+    const key = [...properties].sort().join(',')
+    const poll = (this.polls[key] = this.polls[key] ?? {
+      properties,
+      subscriptions: [],
+      pending: false,
+      due: false,
+    })
+    const subscription: PollSubscription = {
+      interval,
+      hidden,
+    }
+    poll.subscriptions.push(subscription)
+    this.schedulePoll(key)
+
+    return () => {
+      poll.subscriptions = poll.subscriptions.filter((currentSubscription) => {
+        return currentSubscription !== subscription
+      })
+      this.schedulePoll(key)
+    }
+  }
+
+  protected schedulePoll(key: string): void {
+    const poll = this.polls[key]
+
+    if (!poll) {
+      return
+    }
+
+    clearInterval(poll.timer)
+
+    if (poll.subscriptions.length === 0) {
+      delete this.polls[key]
+      return
+    }
+
+    // The most eager subscription determines the interval
+    const interval = Math.min(
+      ...poll.subscriptions.map((subscription) => subscription.interval),
+    )
+
+    poll.timer = setInterval(() => {
+      this.runPoll(key)
+    }, interval)
+  }
+
+  protected async runPoll(key: string): Promise<void> {
+    const poll = this.polls[key]
+
+    if (!poll || poll.pending) {
+      return
+    }
+
+    // Pause while the document is hidden unless requested otherwise
+    if (
+      document.hidden &&
+      !poll.subscriptions.some((subscription) => subscription.hidden)
+    ) {
+      poll.due = true
+      return
+    }
+
+    poll.due = false
+    poll.pending = true
+
+    try {
+      await this.reload({
+        background: true,
+        properties: poll.properties.map((property) => {
+          return this.transformClientPropertyKey(property)
+        }),
+        events: {
+          success: async (event) => {
+            const { visit, response } = event.detail
+
+            // Only apply the properties if the user is still on the same page
+            if (this.location.href !== visit.location.href) {
+              return
+            }
+
+            await this.setPage(
+              {
+                ...response.data,
+                timestamp: Date.now(),
+                visit: this.page.visit,
+              },
+              {
+                replace: true,
+                preserveScroll: true,
+                preserveState: true,
+              },
+            )
+          },
+        },
+      })
+    } finally {
+      poll.pending = false
+    }
+  }
+
+  /**
+   * Receive property updates of the given channel until unsubscribed
+   */
+  public subscribe(channel: string): () => void {
+    if (isSSR()) {
+      return () => undefined
+    }
+
+    // Subscriptions of the same channel share one connection
+    const liveChannel = (this.channels[channel] = this.channels[channel] ?? {
+      source: this.createLiveSource(channel),
+      subscribers: 0,
+    })
+    liveChannel.subscribers++
+
+    let subscribed = true
+
+    return () => {
+      if (!subscribed) {
+        return
+      }
+
+      subscribed = false
+      liveChannel.subscribers--
+
+      if (liveChannel.subscribers === 0) {
+        liveChannel.source.close()
+        delete this.channels[channel]
+      }
+    }
+  }
+
+  protected createLiveSource(channel: string): LiveSource {
+    const {
+      url = (channel: string) => channel,
+      createSource = createEventSource,
+    } = this.options.live ?? {}
+
+    return createSource(url(channel), (patch) => {
+      this.applyLivePatch(patch).catch((error) => {
+        this.reportError(error)
+      })
+    })
+  }
+
+  protected async applyLivePatch(patch: LivePatch): Promise<void> {
+    const transform = this.transformServerPropertyKey.bind(this)
+
+    await this.updatePageProperties(
+      transformPropertyKeys(patch.properties ?? {}, transform),
+      Object.fromEntries(
+        Object.entries(patch.fragments ?? {}).map(([name, properties]) => {
+          return [name, transformPropertyKeys(properties, transform)]
+        }),
+      ),
+    )
+  }
+
+  /**
+   * Merge properties into the current page and the topmost fragments of the
+   * given names without a visit
+   */
+  protected async updatePageProperties(
+    properties: Properties,
+    fragmentProperties: Record<string, Properties> = {},
+  ): Promise<void> {
+    const fragments = Object.fromEntries(
+      Object.entries(this.page.fragments).map(([name, fragmentStack]) => {
+        if (!fragmentStack) {
+          return [name, fragmentStack]
+        }
+
+        return [
+          name,
+          fragmentStack.map((fragment, index) => {
+            if (!fragment) {
+              return fragment
+            }
+
+            // Fragments of the current location show the updated page
+            const page =
+              fragment.page?.location.href === this.location.href
+                ? undefined
+                : fragment.page
+
+            if (
+              !fragmentProperties[name] ||
+              index !== fragmentStack.length - 1
+            ) {
+              return {
+                ...fragment,
+                page,
+              }
+            }
+
+            return {
+              ...fragment,
+              page,
+              properties: {
+                ...fragment.properties,
+                ...fragmentProperties[name],
+              },
+            }
+          }),
+        ]
+      }),
+    )
+    const nextPage: Page = {
+      ...this.page,
+      properties: {
+        ...this.page.properties,
+        ...properties,
+      },
+      fragments,
+    }
+    assignPageToFragments(nextPage)
+
+    this.replaceState(nextPage, true)
+
+    await this.emit('navigate', {
+      page: this.page,
+      visit: this.page.visit,
+      pages: this.internalPages,
+      pageIndex: this.pageIndex,
+      replace: true,
+    })
+  }
+
+  /**
+   * Load the given deferred properties, e.g. to retry failed ones
+   */
+  public async loadDeferred(keys: string[]): Promise<void> {
+    const href = this.location.href
+    const properties = getPageProperties(this.page)
+    const groups: Record<string, { priority: number; keys: string[] }> = {}
+
+    // Properties of the same group are loaded within a single request
+    for (const key of keys) {
+      const property = properties[key]
+
+      if (!isDeferred(property)) {
+        continue
+      }
+
+      const name = property.__group ?? 'default'
+      const group = (groups[name] = groups[name] ?? {
+        priority: property.__priority ?? 0,
+        keys: [],
+      })
+      group.priority = Math.max(group.priority, property.__priority ?? 0)
+      group.keys.push(key)
+    }
+
+    await this.updateDeferred(keys, {
+      __requested: true,
+      __loading: true,
+      __failed: false,
+    })
+
+    // Groups of the same priority load in parallel, lower ones wait for them
+    const priorities = uniq(
+      Object.values(groups).map((group) => group.priority),
+    ).sort((priorityA, priorityB) => priorityB - priorityA)
+
+    for (const priority of priorities) {
+      await Promise.all(
+        Object.values(groups)
+          .filter((group) => group.priority === priority)
+          .map((group) => this.loadDeferredGroup(group.keys, href)),
+      )
+    }
+  }
+
+  protected async loadDeferredGroup(keys: string[], href: string) {
+    let loaded = false
+
+    await this.reload({
+      background: true,
+      headers: {
+        'X-Navigare-Properties': keys
+          .map((key) => this.transformClientPropertyKey(key))
+          .join(','),
+      },
+      events: {
+        success: async (event) => {
+          const { response } = event.detail
+
+          // Only apply the properties if the user is still on the same page
+          if (this.location.href !== href) {
+            return
+          }
+
+          loaded = true
+
+          await this.setPage(
+            {
+              ...response.data,
+              timestamp: Date.now(),
+              visit: this.page.visit,
+            },
+            {
+              replace: true,
+              preserveScroll: true,
+              preserveState: true,
+            },
+          )
+        },
+      },
+    })
+
+    if (!loaded && this.location.href === href) {
+      await this.updateDeferred(keys, {
+        __loading: false,
+        __failed: true,
+      })
+    }
+  }
+
+  protected async updateDeferred(
+    keys: string[],
+    state: Partial<DeferredValue>,
+  ): Promise<void> {
+    const properties = getPageProperties(this.page)
+    const pageProperties: Properties = {}
+    const fragmentProperties: Record<string, Properties> = {}
+
+    for (const key of keys) {
+      const property = properties[key]
+
+      if (!isDeferred(property)) {
+        continue
+      }
+
+      // Fragment properties are prefixed by the name of their fragment
+      const separator = key.indexOf('/')
+      const value = {
+        ...property,
+        ...state,
+      }
+
+      if (separator < 0) {
+        pageProperties[key] = value
+      } else {
+        const fragmentName = key.substring(0, separator)
+        fragmentProperties[fragmentName] = {
+          ...fragmentProperties[fragmentName],
+          [key.substring(separator + 1)]: value,
+        }
+      }
+    }
+
+    await this.updatePageProperties(pageProperties, fragmentProperties)
+  }
+
   public async get(
     routable: Routable,
     data: VisitData = {},
@@ -1196,6 +2941,7 @@ export default class Router<TComponentModule> {
   protected createVisit(visit: SetRequired<Partial<Visit>, 'location'>): Visit {
     return {
       id: Math.random().toString(36),
+      fragmentName: undefined,
       method: RouteMethod.GET,
       data: {},
       replace: false,
@@ -1208,6 +2954,9 @@ export default class Router<TComponentModule> {
       errorBag: null,
       forceFormData: false,
       queryStringArrayFormat: QueryStringArrayFormat.Indices,
+      cache: true,
+      retry: undefined,
+      attempts: 0,
       completed: false,
       cancelled: false,
       interrupted: false,
@@ -1216,7 +2965,12 @@ export default class Router<TComponentModule> {
     }
   }
 
-  protected createLocation(href: string): RouterLocation {
+  protected createLocation(href: string): RouterLocation
+  protected createLocation(href: string, match: true): MatchedRouterLocation
+  protected createLocation(
+    href: string,
+    match = false,
+  ): RouterLocation | MatchedRouterLocation {
     const url = new URL(href, this.location.href)
 
     // Create version without hash
@@ -1233,15 +2987,55 @@ export default class Router<TComponentModule> {
       protocol: url.protocol,
       search: url.search,
       hash: url.hash,
+      ...(match
+        ? {
+            route: this.resolveRoute(url),
+          }
+        : {}),
     }
   }
 
+  /**
+   * Resolve an href back into the named route it belongs to. Requires the
+   * `routes` option to be set.
+   */
+  public resolveRoute(
+    href: string | URL,
+    options: RouteMatchOptions = {},
+  ): RouteMatch | null {
+    return this.routes?.parse(href, this.location.href, options) ?? null
+  }
+
   public match(
-    comparableRoute: Routable | PartialRoute,
+    comparableRoute: MatchableRoute | MatchableRoute[],
     route: Route,
     location: RouterLocation,
     defaults: RouteDefaults,
   ): boolean {
+    // Lists match if any of the routes matches and none of the negated expressions
+    // excludes the route, e.g. `['admin.*', '!admin.logs.*']`
+    if (isArray(comparableRoute)) {
+      const negated = comparableRoute.filter((comparableRoute) => {
+        return (
+          MatchExpression.isExpression(comparableRoute) &&
+          MatchExpression.compile(comparableRoute).negated
+        )
+      })
+      const expected = comparableRoute.filter((comparableRoute) => {
+        return !negated.includes(comparableRoute)
+      })
+
+      return (
+        (expected.length === 0 ||
+          expected.some((comparableRoute) => {
+            return route.match(comparableRoute, location, defaults)
+          })) &&
+        negated.every((comparableRoute) => {
+          return route.match(comparableRoute, location, defaults)
+        })
+      )
+    }
+
     // Check if the route matches the other route
     return route.match(comparableRoute, location, defaults)
   }
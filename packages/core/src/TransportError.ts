@@ -0,0 +1,32 @@
+import { TransportRequest, TransportResponse } from './types'
+
+export default class TransportError<TData = unknown> extends Error {
+  public request: TransportRequest
+
+  public response: TransportResponse<TData> | undefined
+
+  public cancelled: boolean
+
+  public constructor(
+    message: string,
+    request: TransportRequest,
+    options: {
+      response?: TransportResponse<TData>
+      cancelled?: boolean
+    } = {},
+  ) {
+    super(message)
+
+    this.name = 'TransportError'
+    this.request = request
+    this.response = options.response
+    this.cancelled = options.cancelled ?? false
+  }
+
+  /**
+   * Check if an error was thrown because the request was aborted
+   */
+  public static isCancel(error: unknown): error is TransportError {
+    return error instanceof TransportError && error.cancelled
+  }
+}
@@ -0,0 +1,275 @@
+import type Router from './Router'
+import TransportError from './TransportError'
+import {
+  DefaultPageProperties,
+  FormError,
+  FormErrors,
+  FormInputName,
+  FormSubmission,
+  FormValues,
+  PageErrors,
+  Routable,
+  Visit,
+  VisitData,
+} from './types'
+import {
+  castArray,
+  cloneDeep,
+  get,
+  getKeys,
+  isDefined,
+  isFunction,
+} from './utilities'
+
+export function getFormInputName(
+  path: FormInputName | FormInputName[],
+): string {
+  return castArray(path).join('.')
+}
+
+export function getFormInputId(path: FormInputName | FormInputName[]): string {
+  return getFormInputName(path).replace(/[^a-z0-9\-_:.]|^[^a-z]+/gi, '')
+}
+
+/**
+ * Submit the values of a form either via callback or via visit and report
+ * the state of the submission back to the adapter
+ */
+export async function submitForm<TValues extends FormValues, TComponent>(
+  router: Router<TComponent>,
+  submission: FormSubmission<TValues>,
+): Promise<Visit | undefined> {
+  const {
+    values,
+    target,
+    emit,
+    transform = (values: TValues) => values,
+    optimistic,
+  } = submission
+
+  // Visits report their end several times, e.g. via exception and finish
+  let finished = false
+  const finish = async () => {
+    if (finished) {
+      return
+    }
+
+    finished = true
+    submission.onFinish?.()
+
+    await emit('finish', {
+      values,
+    })
+  }
+
+  await emit('before', {
+    values,
+  })
+
+  submission.onStart?.()
+
+  // Listeners can prevent the submission, e.g. in case of invalid values
+  if (
+    (await emit('validate', {
+      values,
+      errors: submission.errors,
+    })) === false
+  ) {
+    await finish()
+
+    return undefined
+  }
+
+  // Submit via callback...
+  if (isFunction(target)) {
+    try {
+      const flash = await target(values)
+
+      submission.onSuccess?.()
+
+      await emit('success', {
+        values,
+        flash: flash as DefaultPageProperties['__flash'],
+      })
+    } catch (error) {
+      if (error instanceof Error) {
+        await emit('exception', {
+          error,
+        })
+      } else {
+        submission.onError?.(error as PageErrors)
+
+        await emit('error', {
+          errors: error as PageErrors,
+        })
+      }
+    }
+
+    await finish()
+
+    return undefined
+  }
+
+  // ... or via route
+  if (!target) {
+    await finish()
+
+    return undefined
+  }
+
+  return await router.visit(target, {
+    fragmentName: submission.fragmentName,
+
+    data: (await transform(values)) as VisitData,
+
+    background: submission.background,
+
+    optimistic: optimistic
+      ? (properties) => {
+          return optimistic(properties, values)
+        }
+      : undefined,
+
+    events: {
+      progress(event) {
+        submission.onProgress?.(event.detail.progress ?? null)
+      },
+
+      async error(event) {
+        submission.onError?.(event.detail.errors)
+
+        await emit('error', {
+          errors: event.detail.errors,
+        })
+      },
+
+      async success(event) {
+        submission.onSuccess?.()
+
+        await emit('success', {
+          values,
+          flash: event.detail.page.properties.__flash,
+        })
+      },
+
+      async redirect(event) {
+        await emit('redirect', {
+          location: event.detail.location,
+        })
+      },
+
+      queued(event) {
+        const { entry } = event.detail
+
+        submission.onQueued?.(entry)
+
+        // Keep the queued state until the visit was sent successfully or
+        // rejected by the server
+        const removeListeners = () => {
+          removeReplayedListener()
+          removeReplayFailedListener()
+        }
+        const removeReplayedListener = router.on('replayed', (replayEvent) => {
+          if (replayEvent.detail.entry.id !== entry.id) {
+            return
+          }
+
+          removeListeners()
+          submission.onReplayed?.(entry, true)
+        })
+        const removeReplayFailedListener = router.on(
+          'replayFailed',
+          (replayEvent) => {
+            if (
+              replayEvent.detail.entry.id !== entry.id ||
+              !replayEvent.detail.response
+            ) {
+              return
+            }
+
+            removeListeners()
+            submission.onReplayed?.(entry, false)
+          },
+        )
+      },
+
+      finish() {
+        finish()
+      },
+
+      invalid() {
+        finish()
+      },
+
+      exception() {
+        finish()
+      },
+    },
+  })
+}
+
+/**
+ * Validate a single input via Precognition and return the errors reported by
+ * the server, `null` if the input is valid or `undefined` if it was not
+ * validated at all
+ */
+export async function validateFormInput<TValues extends FormValues, TComponent>(
+  router: Router<TComponent>,
+  routable: Routable,
+  values: TValues,
+  name: string,
+  signal?: AbortSignal,
+): Promise<FormErrors | null | undefined> {
+  // Files cannot be validated without uploading them
+  const sanitizedValues = Object.fromEntries(
+    Object.entries(cloneDeep(values)).filter(([, value]) => {
+      return !(value instanceof Blob)
+    }),
+  )
+
+  // Stop unnecessary requests early
+  if (
+    !getKeys(sanitizedValues).length ||
+    !isDefined(get(sanitizedValues, name.split('.')))
+  ) {
+    return undefined
+  }
+
+  const { method, location, data } = router.resolveRoutable(
+    routable,
+    sanitizedValues,
+  )
+
+  try {
+    await router.transport.request({
+      method,
+      data,
+      url: location.href,
+      headers: {
+        Precognition: true,
+        'Precognition-Validate-Only': router.transformClientPropertyKey(name),
+      },
+      signal,
+    })
+
+    return null
+  } catch (error) {
+    if (!(error instanceof TransportError)) {
+      throw error
+    }
+
+    if (error.cancelled || error.response?.status !== 422) {
+      return undefined
+    }
+
+    const { errors = {} } = (error.response.data ?? {}) as {
+      errors?: Record<string, FormError>
+    }
+
+    return Object.fromEntries(
+      Object.entries(errors).map(([key, value]) => {
+        return [router.transformServerPropertyKey(key), value]
+      }),
+    )
+  }
+}
@@ -6,10 +6,30 @@ export { default as Route } from './Route'
 
 export { default as PartialRoute } from './PartialRoute'
 
+export { default as RouteRegistry } from './RouteRegistry'
+
+export { default as MatchExpression } from './MatchExpression'
+
+export { default as PrefetchCache } from './PrefetchCache'
+
+export { default as PropertyCache } from './PropertyCache'
+
+export { default as OfflineQueue } from './OfflineQueue'
+
+export { default as Accessibility } from './Accessibility'
+
+export { default as TransportError } from './TransportError'
+
+export { default as AxiosTransport } from './AxiosTransport'
+
+export { default as FetchTransport } from './FetchTransport'
+
 export * from './symbols'
 
 export * from './types'
 
 export * from './utilities'
 
+export * from './forms'
+
 export * from './routes'
@@ -1,7 +1,7 @@
+import PartialRoute from './PartialRoute'
 import Route from './Route'
 import { GeneratedRoutes } from './routes'
 import { Default, Wildcard } from './symbols'
-import { AxiosResponse, AxiosStatic, Canceler, CancelToken } from 'axios'
 
 // Router
 export type PropertyKeyTransformer = (
@@ -25,6 +25,7 @@ export type RouterOptions<TComponent> = {
   initialPage: Page
   base: string
   resolveComponentModule?: ComponentModuleResolver<TComponent>
+  routes?: RawRoutes
   fragments?: Record<
     string,
     {
@@ -32,6 +33,8 @@ export type RouterOptions<TComponent> = {
       stacked?: FragmentOption<boolean>
       lazy?: FragmentOption<boolean>
       inert?: FragmentOption<boolean>
+      concurrency?: VisitConcurrency
+      transition?: string
     }
   >
   events?: Partial<{
@@ -39,7 +42,17 @@ export type RouterOptions<TComponent> = {
   }>
   transformClientPropertyKey?: PropertyKeyTransformer
   transformServerPropertyKey?: PropertyKeyTransformer
-  axios?: AxiosStatic
+  transport?: Transport
+  axios?: AxiosLike
+  prefetch?: PrefetchOptions
+  retry?: RetryOption
+  offline?: OfflineOption
+  versionStrategy?: VersionStrategy
+  live?: LiveOptions
+  mergeStrategies?: MergeStrategies
+  propertyCache?: PropertyCacheOptions
+  transitions?: boolean | TransitionOptions
+  accessibility?: boolean | AccessibilityOptions
   generateErrorLink?: (
     fileName: string | null,
     row: number | null,
@@ -48,6 +61,194 @@ export type RouterOptions<TComponent> = {
   ) => string | null
 }
 
+export type PrefetchOptions = Partial<{
+  ttl: number
+  stale: number
+  max: number
+}>
+
+export type RetryOptions = Partial<{
+  attempts: number
+  delay: number
+  factor: number
+  maxDelay: number
+  jitter: number
+  statuses: number[]
+  methods: RawRouteMethod[]
+}>
+
+export type RetryOption = boolean | RetryOptions
+
+export type OfflineOptions = Partial<{
+  database: string
+  store: string
+}>
+
+export type OfflineOption = boolean | OfflineOptions
+
+export type OfflineVisitData =
+  | {
+      type: 'form-data'
+      entries: Array<[string, FormDataEntryValue]>
+    }
+  | {
+      type: 'object'
+      value: Exclude<VisitData, FormData>
+    }
+
+export type OfflineVisit = {
+  id: number
+  timestamp: number
+  href: string
+  method: RouteMethod
+  data: OfflineVisitData
+  headers: Record<string, string>
+  properties: VisitProperties
+  errorBag: string | null
+  fragmentName: string | undefined
+}
+
+/**
+ * Defines how the router reacts once the server reports a new asset version:
+ * `reload` reloads right away, `navigate` waits for the next navigation and
+ * `notify` does the same while leaving it to the app to offer a reload
+ */
+export type VersionStrategy = 'reload' | 'navigate' | 'notify'
+
+export type VersionChange = {
+  version: string | null
+  previousVersion: string | null
+  location: RouterLocation
+}
+
+/**
+ * Whether the next page was pushed onto the stack or one was navigated back to
+ */
+export type TransitionDirection = 'forward' | 'back'
+
+export type TransitionOptions = Partial<{
+  // Resolves once the next page is rendered, i.e. the DOM is updated
+  render: () => Promise<void>
+}>
+
+export type ViewTransition = {
+  finished: Promise<void>
+  ready: Promise<void>
+  updateCallbackDone: Promise<void>
+}
+
+/**
+ * The element that receives the focus after navigating: the first `h1`, the
+ * element marked via `data-navigare-focus` or the root of the fragment
+ */
+export type FocusTarget = 'heading' | 'marker' | 'fragment'
+
+export type AccessibilityOptions = Partial<{
+  focus: FocusTarget | false
+  announce: boolean | ((page: Page) => string | null)
+}>
+
+export type FocusTrigger = {
+  element: HTMLElement
+  href: string
+  index: number
+}
+
+export type RouterGuardContext = {
+  type: 'visit' | 'history' | 'unload'
+  location: RouterLocation
+  visit?: Visit
+}
+
+export type RouterGuard = (
+  context: RouterGuardContext,
+) => boolean | void | Promise<boolean | void>
+
+export type PollOptions = Partial<{
+  properties: VisitProperties
+  hidden: boolean
+}>
+
+export type PollSubscription = {
+  interval: number
+  hidden: boolean
+}
+
+export type Poll = {
+  properties: VisitProperties
+  subscriptions: PollSubscription[]
+  timer?: ReturnType<typeof setInterval>
+  pending: boolean
+  due: boolean
+}
+
+/**
+ * Properties pushed by the server, either for the whole page or for the
+ * topmost fragment of the given names
+ */
+export type LivePatch = Partial<{
+  properties: Properties
+  fragments: Record<string, Properties>
+}>
+
+export type LiveSource = {
+  close: () => void
+}
+
+export type LiveSourceFactory = (
+  url: string,
+  onPatch: (patch: LivePatch) => void,
+) => LiveSource
+
+export type LiveOptions = Partial<{
+  url: (channel: string) => string
+  createSource: LiveSourceFactory
+}>
+
+export type LiveChannel = {
+  source: LiveSource
+  subscribers: number
+}
+
+/**
+ * Properties flagged as cacheable by the server which are stored under the
+ * given key for `ttl` seconds
+ */
+export type PropertyCacheInstructions = Record<
+  string,
+  {
+    key: string
+    ttl: number
+  }
+>
+
+export type CachedValue = {
+  __cached: string
+}
+
+export type PropertyCacheOptions = Partial<{
+  max: number
+}>
+
+export type PropertyCacheEntry = {
+  key: string
+  value: PropertyValue
+  expires: number
+}
+
+export type PrefetchCacheEntry = {
+  key: string
+  response: TransportResponse<Page>
+  timestamp: number
+  ttl: number
+  stale: number
+}
+
+export type PrefetchCacheHit = {
+  response: TransportResponse<Page>
+  stale: boolean
+}
+
 export type ComponentModuleResolver<TComponent> = (
   url: string,
   component: Component,
@@ -66,10 +267,20 @@ export type RouterLocation = {
   state?: string | undefined
 }
 
+export type MatchedRouterLocation = RouterLocation & {
+  route: RouteMatch | null
+}
+
 // Pages
 export type DeferredValue = {
   __deferred: true
+  __group?: string
+  __priority?: number
+  __lazy?: boolean
+  __key?: string
   __requested?: true
+  __loading?: boolean
+  __failed?: boolean
 }
 
 export type DeferredProperty<TValue = any> = DeferredValue | TValue
@@ -120,13 +331,61 @@ export interface Page {
   rememberedState: PageRememberedState
 }
 
+/**
+ * Hashes of the properties as computed by the server which allow it to
+ * respond with a patch instead of the full page
+ */
+export type PropertyHashes = Record<string, string>
+
+/**
+ * The last full page exactly as it was sent by the server, which is the
+ * document the server computed the hashes for
+ */
+export type PatchDocument = {
+  href: string
+  page: Page
+  propertyHashes: PropertyHashes
+}
+
+export type PatchFormat = 'json-patch' | 'merge-patch'
+
+export type JsonPatchOperation =
+  | {
+      op: 'add' | 'replace' | 'test'
+      path: string
+      value: unknown
+    }
+  | {
+      op: 'remove'
+      path: string
+    }
+  | {
+      op: 'move' | 'copy'
+      from: string
+      path: string
+    }
+
+export type PageStack = {
+  pages: Page[]
+  pageIndex: number
+}
+
 export interface PageProperties extends Properties {}
 
 export type DefaultPageProperties = {
   __errors?: PageErrors & PageErrorBag
   __flash?: Record<string, any>
+  __merge?: MergeStrategies
+  __cache?: PropertyCacheInstructions
 }
 
+/**
+ * Defines how a property of a partial reload is merged into the current one
+ */
+export type MergeStrategy = 'append' | 'prepend' | 'deep' | 'replace'
+
+export type MergeStrategies = Record<string, MergeStrategy>
+
 export type PropertyKey = string | number
 
 export type PropertyValue =
@@ -197,7 +456,7 @@ export type RouterEvents = {
     details: {
       visit: Visit
       page: Page
-      response: AxiosResponse
+      response: TransportResponse<Page>
     }
     result: void
   }
@@ -205,7 +464,7 @@ export type RouterEvents = {
   redirect: {
     details: {
       visit: Visit
-      location: RouterLocation
+      location: MatchedRouterLocation
     }
     result: void
   }
@@ -214,7 +473,7 @@ export type RouterEvents = {
     details: {
       visit: Visit
       errors: PageErrors
-      response: AxiosResponse | undefined
+      response: TransportResponse | undefined
     }
     result: void
   }
@@ -222,7 +481,8 @@ export type RouterEvents = {
   invalid: {
     details: {
       visit: Visit
-      response: AxiosResponse | undefined
+      location: MatchedRouterLocation
+      response: TransportResponse | undefined
     }
     result: Page | void
   }
@@ -234,6 +494,67 @@ export type RouterEvents = {
     }
     result: boolean | void
   }
+
+  retry: {
+    details: {
+      visit: Visit
+      attempt: number
+      delay: number
+      error: Error
+    }
+    result: boolean | void
+  }
+
+  queued: {
+    details: {
+      visit: Visit
+      entry: OfflineVisit
+    }
+    result: void
+  }
+
+  replayed: {
+    details: {
+      visit: Visit
+      entry: OfflineVisit
+    }
+    result: void
+  }
+
+  replayFailed: {
+    details: {
+      visit: Visit
+      entry: OfflineVisit
+      errors: PageErrors
+      response: TransportResponse | undefined
+    }
+    result: void
+  }
+
+  hashchange: {
+    details: {
+      visit: Visit
+      hash: string
+      previousHash: string
+    }
+    result: void
+  }
+
+  versionChange: {
+    details: VersionChange & {
+      visit: Visit
+      strategy: VersionStrategy
+    }
+    result: boolean | void
+  }
+
+  announce: {
+    details: {
+      page: Page
+      message: string
+    }
+    result: void
+  }
 }
 
 export type RouterEventNames = keyof RouterEvents
@@ -266,8 +587,8 @@ export type FormDataConvertible =
 export type VisitData = Record<string, FormDataConvertible> | FormData
 
 export type VisitCancelToken = {
-  token?: CancelToken
-  cancel: Canceler
+  signal?: AbortSignal
+  cancel: () => void
 }
 
 export type VisitPreserveOption = boolean | 'errors' | ((page: Page) => boolean)
@@ -284,12 +605,92 @@ export type VisitProgress = {
   download?: boolean
 }
 
+export type TransportProgressEvent = {
+  loaded: number
+  total?: number
+  progress?: number
+  bytes: number
+  rate?: number
+  estimated?: number
+  upload?: boolean
+  download?: boolean
+}
+
+export type TransportRequestHeaders = Record<
+  string,
+  string | number | boolean | string[] | null | undefined
+>
+
+export type TransportRequest = {
+  method: RouteMethod
+  url: string
+  data?: VisitData
+  headers?: TransportRequestHeaders
+  signal?: AbortSignal
+  onUploadProgress?: (progress: TransportProgressEvent) => void
+  onDownloadProgress?: (progress: TransportProgressEvent) => void
+}
+
+export type TransportResponse<TData = unknown> = {
+  status: number
+  headers: Record<string, string>
+  data: TData
+  url: string
+}
+
+export type Transport = {
+  request(request: TransportRequest): Promise<TransportResponse>
+}
+
+export type FetchTransportOptions = {
+  fetch?: typeof fetch
+  credentials?: RequestCredentials
+  xsrfCookieName?: string
+  xsrfHeaderName?: string
+}
+
+export type AxiosResponseLike<TData = unknown> = {
+  status: number
+  headers?: object
+  data: TData
+  request?: {
+    responseURL?: string
+  }
+}
+
+export type AxiosErrorLike<TData = unknown> = {
+  message: string
+  response?: AxiosResponseLike<TData>
+}
+
+/**
+ * The part of axios used by the `AxiosTransport`, so that apps without axios
+ * don't depend on its types
+ */
+export type AxiosLike = {
+  request<TData>(config: {
+    method: RouteMethod
+    url: string
+    data?: VisitData
+    headers: Record<string, Exclude<TransportRequestHeaders[string], undefined>>
+    signal?: AbortSignal
+    onUploadProgress?: (progress: TransportProgressEvent) => void
+    onDownloadProgress?: (progress: TransportProgressEvent) => void
+  }): Promise<AxiosResponseLike<TData>>
+  isCancel(value: unknown): boolean
+  isAxiosError<TData>(value: unknown): value is AxiosErrorLike<TData>
+}
+
 export type Redirect = {
   preserveScroll: boolean
 }
 
 export type VisitProperties = Array<string>
 
+export type VisitOptimisticUpdate = (
+  properties: Page['properties'],
+) => Partial<Page['properties']>
+
 export type VisitHeaders = Record<string, string>
 
 export type VisitOptions = Partial<{
@@ -306,13 +707,31 @@ export type VisitOptions = Partial<{
   errorBag: string | null
   forceFormData: boolean
   queryStringArrayFormat: QueryStringArrayFormat
+  cache: boolean
+  retry: RetryOption
+  optimistic: VisitOptimisticUpdate
   events: Partial<{
     [TEventName in RouterEventNames]: RouterEventListener<TEventName>
   }>
 }>
 
+export type VisitPrefetchOptions = Pick<
+  VisitOptions,
+  | 'method'
+  | 'data'
+  | 'properties'
+  | 'headers'
+  | 'forceFormData'
+  | 'queryStringArrayFormat'
+> &
+  Omit<PrefetchOptions, 'max'> &
+  Partial<{
+    force: boolean
+  }>
+
 export type Visit = {
   id: VisitId
+  fragmentName: string | undefined
   method: RouteMethod
   data: VisitData
   replace: boolean
@@ -325,6 +744,9 @@ export type Visit = {
   errorBag: string | null
   forceFormData: boolean
   queryStringArrayFormat: QueryStringArrayFormat
+  cache: boolean
+  retry: RetryOption | undefined
+  attempts: number
   location: RouterLocation
   completed: boolean
   cancelled: boolean
@@ -339,6 +761,151 @@ export type Visit = {
 
 export type VisitId = string
 
+/**
+ * Defines how a visit behaves while other visits of the same fragment
+ * are still pending
+ */
+export type VisitConcurrency =
+  | 'cancel-previous'
+  | 'queue'
+  | 'parallel'
+  | 'ignore-new'
+
+// Forms
+export type FormValue = FormDataConvertible | FormValues
+
+export interface FormValues {
+  [key: string]: FormValue
+}
+
+export type FormInputName = string | number
+
+export type FormInputPath = FormInputName[]
+
+export type FormError = string | string[] | null
+
+export interface FormErrors {
+  [name: string]: FormError
+}
+
+export type FormEvents<TValues extends FormValues = FormValues> = {
+  validate: {
+    details: {
+      values: TValues
+      errors: FormErrors
+    }
+    result: void
+  }
+
+  before: {
+    details: {
+      values: TValues
+    }
+    result: void
+  }
+
+  success: {
+    details: {
+      values: TValues
+      flash: DefaultPageProperties['__flash']
+    }
+    result: void
+  }
+
+  redirect: {
+    details: {
+      location: RouterLocation
+    }
+    result: void
+  }
+
+  error: {
+    details: {
+      errors: PageErrors
+    }
+    result: void
+  }
+
+  finish: {
+    details: {
+      values: TValues
+    }
+    result: void
+  }
+
+  reset: {
+    details: {
+      previousValues: TValues
+      nextValues: TValues
+    }
+    result: void
+  }
+
+  change: {
+    details: {
+      values: TValues
+    }
+    result: void
+  }
+
+  exception: {
+    details: {
+      error: Error
+    }
+    result: boolean | void
+  }
+}
+
+export type FormEventNames = keyof FormEvents
+
+export type FormEventDetails<TEventName extends FormEventNames> =
+  FormEvents[TEventName]['details']
+
+export type FormEventResult<TEventName extends FormEventNames> =
+  FormEvents[TEventName]['result']
+
+export type FormEvent<TEventName extends FormEventNames> = CustomEvent<
+  FormEventDetails<TEventName>
+>
+
+export type FormEventListener<TEventName extends FormEventNames> = (
+  event: FormEvent<TEventName>,
+) => FormEventResult<TEventName>
+
+export type FormValidationOptions =
+  | boolean
+  | Partial<{
+      on: 'input' | 'change' | false
+      debounce: number
+    }>
+
+/**
+ * A single submission of a form whose state is kept by the adapters
+ */
+export type FormSubmission<TValues extends FormValues = FormValues> = {
+  values: TValues
+  errors: FormErrors
+  target: Routable | ((values: TValues) => unknown) | null
+  fragmentName?: string
+  background?: boolean
+  transform?: (values: TValues) => unknown
+  optimistic?: (
+    properties: Page['properties'],
+    values: TValues,
+  ) => Partial<Page['properties']>
+  emit: <TEventName extends FormEventNames>(
+    name: TEventName,
+    details: FormEvents<TValues>[TEventName]['details'],
+  ) => Promise<FormEventResult<TEventName> | boolean>
+  onStart?: () => void
+  onProgress?: (progress: VisitProgress | null) => void
+  onSuccess?: () => void
+  onError?: (errors: PageErrors) => void
+  onQueued?: (entry: OfflineVisit) => void
+  onReplayed?: (entry: OfflineVisit, successful: boolean) => void
+  onFinish?: () => void
+}
+
 // Routes
 export interface Routes extends GeneratedRoutes {}
 
@@ -418,6 +985,24 @@ export type RawRoute<TName extends RouteName = RouteName> = {
 
 export type RawRoutes = Record<string, RawRoute>
 
+export type RouteMatch<TName extends RouteName = RouteName> = {
+  route: Route<TName>
+  parameters: Record<string, string>
+  query: Record<string, any>
+}
+
+export type MatchPredicate = {
+  key: string
+  negated: boolean
+  values: string[] | null
+}
+
+export type MatchableRoute = Routable | PartialRoute
+
+export type RouteMatchOptions = Partial<{
+  method: RawRouteMethod
+}>
+
 export enum QueryStringArrayFormat {
   Indices = 'indices',
   Brackets = 'brackets',
@@ -437,6 +1022,37 @@ export type RouteOptions = Partial<{
   headers: VisitHeaders
 }>
 
+export type RouteIssueCode =
+  | 'missing_parameter'
+  | 'pattern_mismatch'
+  | 'unknown_parameter'
+  | 'invalid_binding'
+
+export type RouteIssue = {
+  code: RouteIssueCode
+  parameter: string
+  message: string
+}
+
+export type RouteValidationOptions = Partial<{
+  defaults: RouteDefaults
+  /**
+   * Report parameters that neither correspond to a segment nor to a binding
+   * instead of appending them to the query string.
+   */
+  strict: boolean
+}>
+
+export type RouteValidationResult<TName extends RouteName = RouteName> =
+  | {
+      success: true
+      parameters: RouteParameters<TName>
+    }
+  | {
+      success: false
+      issues: RouteIssue[]
+    }
+
 // Rendered
 export interface RenderedApp {
   id: string
@@ -9,6 +9,18 @@ import {
   Properties,
   PropertyKey,
   PropertyKeyTransformer,
+  RetryOption,
+  RetryOptions,
+  VisitProgress,
+  TransportProgressEvent,
+  LivePatch,
+  LiveSource,
+  JsonPatchOperation,
+  PropertyHashes,
+  MergeStrategies,
+  MergeStrategy,
+  PropertyValue,
+  ViewTransition,
 } from './types'
 import {
   FormDataConvertible,
@@ -158,10 +170,96 @@ export function mergeDataIntoQueryString(
   }
 }
 
+export function mergeProperty(
+  value: PropertyValue,
+  nextValue: PropertyValue,
+  strategy: MergeStrategy,
+): PropertyValue {
+  switch (strategy) {
+    case 'append':
+    case 'prepend': {
+      const concat = (items: any[], nextItems: any[]) => {
+        return strategy === 'append'
+          ? [...items, ...nextItems]
+          : [...nextItems, ...items]
+      }
+
+      if (isArray(value) && isArray(nextValue)) {
+        return concat(value, nextValue)
+      }
+
+      // Paginators wrap their items while the rest describes the current page
+      if (
+        isObject(value) &&
+        isObject(nextValue) &&
+        isArray((value as Properties).data) &&
+        isArray((nextValue as Properties).data)
+      ) {
+        return {
+          ...(nextValue as Properties),
+          data: concat(
+            (value as Properties).data as any[],
+            (nextValue as Properties).data as any[],
+          ),
+        }
+      }
+
+      return nextValue
+    }
+
+    case 'deep':
+      return mergeWith(
+        cloneDeep(value),
+        nextValue,
+        (_value: unknown, nextItem: unknown) => {
+          return isArray(nextItem) ? nextItem : undefined
+        },
+      )
+
+    default:
+      return nextValue
+  }
+}
+
+export function mergeProperties(
+  properties: Properties | undefined,
+  nextProperties: Properties,
+  mergeStrategies: MergeStrategies | null = null,
+): Properties {
+  if (!properties || !mergeStrategies) {
+    return {
+      ...properties,
+      ...nextProperties,
+    }
+  }
+
+  // Strategies declared by the server take precedence
+  const strategies: MergeStrategies = {
+    ...mergeStrategies,
+    ...(nextProperties.__merge as MergeStrategies | undefined),
+  }
+
+  return {
+    ...properties,
+    ...Object.fromEntries(
+      Object.entries(nextProperties).map(([key, nextValue]) => {
+        const strategy = strategies[key]
+
+        if (!strategy || !(key in properties)) {
+          return [key, nextValue]
+        }
+
+        return [key, mergeProperty(properties[key], nextValue, strategy)]
+      }),
+    ),
+  }
+}
+
 export function mergeFragments<TComponentModule>(
   allCurrentFragments: Fragments,
   allNextFragments: Fragments,
   options: RouterOptions<TComponentModule>['fragments'] = {},
+  mergeStrategies: MergeStrategies | null = null,
 ): Fragments {
   return uniq([
     ...getKeys(allCurrentFragments),
@@ -230,10 +328,11 @@ export function mergeFragments<TComponentModule>(
             !stacked ||
             (!!stacked && currentLocation === nextLocation)
           ) {
-            nextFragment.properties = {
-              ...currentFragment?.properties,
-              ...nextFragment.properties,
-            }
+            nextFragment.properties = mergeProperties(
+              currentFragment?.properties,
+              nextFragment.properties,
+              mergeStrategies,
+            )
 
             // Reuse component by using the same visit
             if (
@@ -295,12 +394,14 @@ export function mergePages<TComponentModule>(
   page: Page | undefined,
   nextPage: Page,
   options: RouterOptions<TComponentModule>['fragments'] = {},
+  mergeStrategies: MergeStrategies | null = null,
 ): Page {
   // Merge properties
-  nextPage.properties = {
-    ...page?.properties,
-    ...nextPage.properties,
-  }
+  nextPage.properties = mergeProperties(
+    page?.properties,
+    nextPage.properties,
+    mergeStrategies,
+  )
 
   // Assign pages to fragments
   if (page) {
@@ -314,6 +415,7 @@ export function mergePages<TComponentModule>(
     page?.fragments || {},
     nextPage.fragments,
     options,
+    mergeStrategies,
   )
 
   return nextPage
@@ -755,3 +857,318 @@ export function clonePage<TPage extends Page | undefined>(page: TPage): TPage {
   // This is just a dummy but maybe it becomes handy in the future
   return page
 }
+
+export function resolveRetryOptions(
+  ...options: (RetryOption | undefined)[]
+): Required<RetryOptions> | null {
+  const definedOptions = options.filter(isDefined)
+  const lastOption = definedOptions[definedOptions.length - 1]
+
+  // Retries are opt-in and can be disabled again per visit
+  if (!lastOption) {
+    return null
+  }
+
+  return defaults(
+    {},
+    ...definedOptions
+      .filter((option): option is RetryOptions => isObject(option))
+      .reverse(),
+    {
+      attempts: 3,
+      delay: 300,
+      factor: 2,
+      maxDelay: 5000,
+      jitter: 0.5,
+      statuses: [502, 503, 504],
+      methods: ['GET', 'HEAD', 'PUT', 'DELETE'],
+    },
+  )
+}
+
+export function isRetryable(
+  method: RouteMethod,
+  status: number | undefined,
+  options: Required<RetryOptions>,
+): boolean {
+  // Non-idempotent requests might have been processed by the server already
+  if (!options.methods.some((allowedMethod) => allowedMethod === method)) {
+    return false
+  }
+
+  // Requests without a response failed due to the network
+  if (!isDefined(status)) {
+    return true
+  }
+
+  return options.statuses.includes(status)
+}
+
+export function getRetryDelay(
+  attempt: number,
+  options: Required<RetryOptions>,
+  random: () => number = Math.random,
+): number {
+  const delay = Math.min(
+    options.delay * Math.pow(options.factor, Math.max(attempt - 1, 0)),
+    options.maxDelay,
+  )
+  const jitter = Math.min(Math.max(options.jitter, 0), 1)
+
+  // Spread the retries so clients do not hammer the server at the same time
+  return Math.round(delay * (1 - jitter * random()))
+}
+
+export function wait(milliseconds: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, milliseconds)
+  })
+}
+
+export function createProgressTracker(
+  now: () => number = Date.now,
+): (progress: TransportProgressEvent) => VisitProgress {
+  let start: { time: number; loaded: number } | null = null
+
+  return (progress) => {
+    const { loaded, total } = progress
+
+    // Measure from the first event so time spent waiting for the server is excluded
+    if (!start) {
+      start = {
+        time: now(),
+        loaded,
+      }
+    }
+
+    const elapsed = (now() - start.time) / 1000
+    const rate =
+      progress.rate ??
+      (elapsed > 0 && loaded > start.loaded
+        ? (loaded - start.loaded) / elapsed
+        : undefined)
+    const estimated =
+      progress.estimated ??
+      (rate && isDefined(total) && total >= loaded
+        ? (total - loaded) / rate
+        : undefined)
+
+    return {
+      ...progress,
+      percentage: total ? Math.round((100 * loaded) / total) : undefined,
+      rate,
+      estimated,
+    }
+  }
+}
+
+export function createEventSource(
+  url: string,
+  onPatch: (patch: LivePatch) => void,
+): LiveSource {
+  const eventSource = new EventSource(url, {
+    withCredentials: true,
+  })
+
+  eventSource.addEventListener('message', (event) => {
+    const patch = safeParse<LivePatch>(event.data)
+
+    if (patch) {
+      onPatch(patch)
+    }
+  })
+
+  return {
+    close: () => {
+      eventSource.close()
+    },
+  }
+}
+
+export function supportsViewTransitions(): boolean {
+  return !isSSR() && 'startViewTransition' in document
+}
+
+export function startViewTransition(
+  update: () => Promise<void>,
+): ViewTransition {
+  return (
+    document as Document & {
+      startViewTransition: (update: () => Promise<void>) => ViewTransition
+    }
+  ).startViewTransition(update)
+}
+
+function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') {
+    return []
+  }
+
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer "${pointer}"`)
+  }
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * Apply a JSON Patch (RFC 6902) without mutating the given document
+ */
+export function applyJsonPatch<TDocument>(
+  document: TDocument,
+  operations: JsonPatchOperation[],
+): TDocument {
+  let result: any = cloneDeep(document)
+
+  const getValue = (path: string, tokens = parseJsonPointer(path)): any => {
+    return tokens.reduce((value, token) => {
+      if (!isObject(value) || !(token in value)) {
+        throw new Error(`Path "${path}" does not exist`)
+      }
+
+      return (value as Record<string, any>)[token]
+    }, result)
+  }
+
+  const getParent = (path: string): [any, string] => {
+    const tokens = parseJsonPointer(path)
+    const key = tokens.pop()!
+    const parent = getValue(path, tokens)
+
+    if (!isObject(parent)) {
+      throw new Error(`Path "${path}" does not exist`)
+    }
+
+    return [parent, key]
+  }
+
+  const getIndex = (key: string, max: number): number => {
+    const index = Number(key)
+
+    if (!/^(0|[1-9][0-9]*)$/.test(key) || index > max) {
+      throw new Error(`Index "${key}" is out of bounds`)
+    }
+
+    return index
+  }
+
+  const add = (path: string, value: unknown) => {
+    if (path === '') {
+      result = value
+      return
+    }
+
+    const [parent, key] = getParent(path)
+
+    if (isArray(parent)) {
+      const index = key === '-' ? parent.length : getIndex(key, parent.length)
+      parent.splice(index, 0, value)
+    } else {
+      parent[key] = value
+    }
+  }
+
+  const remove = (path: string) => {
+    const [parent, key] = getParent(path)
+
+    if (isArray(parent)) {
+      parent.splice(getIndex(key, parent.length - 1), 1)
+    } else {
+      getValue(path)
+      delete parent[key]
+    }
+  }
+
+  for (const operation of operations) {
+    switch (operation.op) {
+      case 'add':
+        add(operation.path, cloneDeep(operation.value))
+        break
+
+      case 'remove':
+        remove(operation.path)
+        break
+
+      case 'replace':
+        if (operation.path !== '') {
+          remove(operation.path)
+        }
+        add(operation.path, cloneDeep(operation.value))
+        break
+
+      case 'move': {
+        const value = getValue(operation.from)
+        remove(operation.from)
+        add(operation.path, value)
+        break
+      }
+
+      case 'copy':
+        add(operation.path, cloneDeep(getValue(operation.from)))
+        break
+
+      case 'test':
+        if (!isEqual(getValue(operation.path), operation.value)) {
+          throw new Error(`Test of path "${operation.path}" failed`)
+        }
+        break
+
+      default:
+        throw new Error(`Unknown operation "${(operation as any).op}"`)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Apply a JSON Merge Patch (RFC 7396) without mutating the given target
+ */
+export function applyMergePatch<TTarget>(
+  target: TTarget,
+  patch: unknown,
+): TTarget {
+  if (!isObject(patch) || isArray(patch)) {
+    return cloneDeep(patch) as TTarget
+  }
+
+  const result: Record<string, any> =
+    isObject(target) && !isArray(target) ? { ...target } : {}
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key]
+    } else {
+      result[key] = applyMergePatch(result[key], value)
+    }
+  }
+
+  return result as TTarget
+}
+
+export function serializePropertyHashes(hashes: PropertyHashes): string[] {
+  return Object.entries(hashes).map(([name, hash]) => `${name}=${hash}`)
+}
+
+export function parsePropertyHashes(
+  header: string | undefined,
+): PropertyHashes | undefined {
+  if (!header) {
+    return undefined
+  }
+
+  return Object.fromEntries(
+    header
+      .split(',')
+      .map((entry) => {
+        const [name, ...hash] = entry.trim().split('=')
+
+        // Hashes may be base64 encoded and therefore contain padding
+        return [name, hash.join('=')]
+      })
+      .filter(([name, hash]) => name && hash),
+  )
+}
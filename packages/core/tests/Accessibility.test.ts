@@ -0,0 +1,132 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { Accessibility, Page } from '../src'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+const createPage = (pathname: string, fragmentName?: string): Page => {
+  return {
+    visit: {
+      id: pathname,
+      fragmentName,
+      background: false,
+    },
+    location: {
+      href: new URL(pathname, window.location.href).href,
+    },
+  } as unknown as Page
+}
+
+describe('Accessibility', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+    document.title = ''
+  })
+
+  it('focuses the heading and announces the page', async () => {
+    const announce = vi.fn(async () => undefined)
+    const accessibility = new Accessibility({}, announce)
+    document.body.innerHTML = '<main><h1>Posts</h1></main>'
+    accessibility.registerFragment('default', document.querySelector('main')!)
+
+    const page = createPage('/posts')
+    await accessibility.handleNavigate(page, undefined, 'forward')
+
+    const heading = document.querySelector('h1')!
+    expect(document.activeElement).toBe(heading)
+    expect(heading.getAttribute('tabindex')).toEqual('-1')
+    expect(announce).toHaveBeenCalledWith(page, 'Posts')
+  })
+
+  it('focuses marked elements within the fragment of the visit', async () => {
+    const accessibility = new Accessibility(
+      {
+        focus: 'marker',
+        announce: (page) => `Navigated to ${page.location.href}`,
+      },
+      async () => undefined,
+    )
+    document.title = 'Contacts'
+    document.body.innerHTML = `
+      <main><input data-navigare-focus /></main>
+      <dialog open><button data-navigare-focus>Close</button></dialog>
+    `
+    accessibility.registerFragment('default', document.querySelector('main')!)
+    accessibility.registerFragment('modal', document.querySelector('dialog')!)
+
+    await accessibility.handleNavigate(
+      createPage('/contacts/create', 'modal'),
+      undefined,
+      'forward',
+    )
+
+    expect(document.activeElement).toBe(document.querySelector('button'))
+  })
+
+  it('leaves the document alone without rendered fragments', async () => {
+    const accessibility = new Accessibility({}, async () => undefined)
+    document.body.innerHTML = '<h1>Posts</h1>'
+
+    await accessibility.handleNavigate(
+      createPage('/posts'),
+      undefined,
+      'forward',
+    )
+
+    expect(document.activeElement).toBe(document.body)
+    expect(document.body.hasAttribute('tabindex')).toBe(false)
+    expect(document.querySelector('h1')?.hasAttribute('tabindex')).toBe(false)
+  })
+
+  it('restores the focus to the link after navigating back', async () => {
+    const accessibility = new Accessibility(
+      {
+        announce: false,
+      },
+      async () => undefined,
+    )
+    document.body.innerHTML = `
+      <main><h1>Posts</h1><a href="/posts/1">First</a><a href="/posts/1">Again</a></main>
+    `
+    accessibility.rememberTrigger(document.querySelectorAll('a')[1])
+
+    await accessibility.handleNavigate(
+      createPage('/posts/1'),
+      createPage('/posts'),
+      'forward',
+    )
+
+    // Links are rendered again once the previous page is shown
+    document.body.innerHTML = `
+      <main><h1>Posts</h1><a href="/posts/1">First</a><a href="/posts/1">Again</a></main>
+    `
+
+    await accessibility.handleNavigate(createPage('/posts'), undefined, 'back')
+
+    expect(document.activeElement).toBe(document.querySelectorAll('a')[1])
+  })
+
+  it('restores the focus of closed modals instead of the heading', async () => {
+    const accessibility = new Accessibility(
+      {
+        announce: false,
+      },
+      async () => undefined,
+    )
+    document.body.innerHTML = `
+      <main><h1>Contacts</h1><button>Create</button></main>
+    `
+    accessibility.registerFragment('default', document.querySelector('main')!)
+
+    // Modals are unmounted while the next page is rendered
+    const navigation = accessibility.handleNavigate(
+      createPage('/contacts'),
+      undefined,
+      'forward',
+    )
+    accessibility.restoreFocus(document.querySelector('button')!)
+    await navigation
+
+    expect(document.activeElement).toBe(document.querySelector('button'))
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { FetchTransport, RouteMethod, TransportError } from '../src'
+import { describe, expect, it, vi } from 'vitest'
+
+const createFetch = (response: Response) => {
+  return vi.fn<Parameters<typeof fetch>, ReturnType<typeof fetch>>(async () => {
+    return response
+  })
+}
+
+describe('FetchTransport', () => {
+  it('sends headers and JSON bodies', async () => {
+    document.cookie = 'XSRF-TOKEN=token%3D'
+    const fetch = createFetch(
+      new Response(JSON.stringify({ id: 1 }), {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Navigare': 'true',
+        },
+      }),
+    )
+    const transport = new FetchTransport({ fetch })
+
+    const response = await transport.request({
+      method: RouteMethod.POST,
+      url: '/posts',
+      data: {
+        title: 'Hello',
+      },
+      headers: {
+        'X-Navigare': true,
+        'X-Navigare-Properties': ['posts', 'users'],
+        'X-Navigare-Version': undefined,
+      },
+    })
+
+    const [url, init] = fetch.mock.calls[0]
+    const headers = init?.headers as Headers
+
+    expect(url).toEqual('/posts')
+    expect(init?.body).toEqual('{"title":"Hello"}')
+    expect(headers.get('Content-Type')).toEqual('application/json')
+    expect(headers.get('X-Navigare')).toEqual('true')
+    expect(headers.get('X-Navigare-Properties')).toEqual('posts,users')
+    expect(headers.has('X-Navigare-Version')).toBe(false)
+    expect(headers.get('X-XSRF-TOKEN')).toEqual('token=')
+    expect(response.status).toEqual(200)
+    expect(response.headers['x-navigare']).toEqual('true')
+    expect(response.data).toEqual({ id: 1 })
+  })
+
+  it('does not send bodies with GET requests', async () => {
+    const fetch = createFetch(new Response('<html></html>'))
+    const transport = new FetchTransport({ fetch })
+
+    const response = await transport.request({
+      method: RouteMethod.GET,
+      url: '/posts',
+      data: {},
+    })
+
+    expect(fetch.mock.calls[0][1]?.body).toBeUndefined()
+    expect(response.data).toEqual('<html></html>')
+  })
+
+  it('rejects unsuccessful responses with their response', async () => {
+    const fetch = createFetch(
+      new Response(JSON.stringify({ errors: { title: ['Required'] } }), {
+        status: 422,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }),
+    )
+    const transport = new FetchTransport({ fetch })
+
+    const error = await transport
+      .request({
+        method: RouteMethod.POST,
+        url: '/posts',
+      })
+      .catch((error) => error)
+
+    expect(error).toBeInstanceOf(TransportError)
+    expect(error.cancelled).toBe(false)
+    expect(error.response.status).toEqual(422)
+    expect(error.response.data.errors.title).toEqual(['Required'])
+  })
+
+  it('marks aborted requests as cancelled', async () => {
+    const abortController = new AbortController()
+    const transport = new FetchTransport({
+      fetch: async () => {
+        abortController.abort()
+
+        throw new DOMException('The operation was aborted.', 'AbortError')
+      },
+    })
+
+    const error = await transport
+      .request({
+        method: RouteMethod.GET,
+        url: '/posts',
+        signal: abortController.signal,
+      })
+      .catch((error) => error)
+
+    expect(TransportError.isCancel(error)).toBe(true)
+  })
+
+  it('reports download progress', async () => {
+    const onDownloadProgress = vi.fn()
+    const transport = new FetchTransport({
+      fetch: createFetch(
+        new Response('0123456789', {
+          headers: {
+            'Content-Length': '10',
+          },
+        }),
+      ),
+    })
+
+    const response = await transport.request({
+      method: RouteMethod.GET,
+      url: '/posts',
+      onDownloadProgress,
+    })
+
+    expect(response.data).toEqual('0123456789')
+    expect(onDownloadProgress).toHaveBeenLastCalledWith({
+      loaded: 10,
+      total: 10,
+      progress: 1,
+      bytes: 10,
+      download: true,
+    })
+  })
+})
@@ -0,0 +1,110 @@
+import {
+  MatchExpression,
+  RawRoute,
+  Route,
+  Router,
+  RouterLocation,
+} from '../src'
+import { describe, expect, it } from 'vitest'
+
+const createLocation = (search = ''): RouterLocation => {
+  return {
+    href: `https://navigare.test/${search}`,
+    host: 'navigare.test',
+    hostname: 'navigare.test',
+    origin: 'https://navigare.test',
+    pathname: '/',
+    port: '',
+    protocol: 'https:',
+    search,
+    hash: '',
+  }
+}
+
+const createRawRoute = (name: string, uri: string): RawRoute => {
+  return {
+    name: name as never,
+    uri,
+    methods: ['GET', 'HEAD'],
+  }
+}
+
+const eventRoute = new Route(createRawRoute('events.show', 'events/{event}'), {
+  event: 5,
+} as never)
+
+const logsRoute = new Route(
+  createRawRoute('admin.logs.index', 'admin/logs'),
+  {},
+)
+
+const usersRoute = new Route(
+  createRawRoute('admin.users.index', 'admin/users'),
+  {},
+)
+
+describe('MatchExpression', () => {
+  it('caches compiled expressions', () => {
+    expect(MatchExpression.compile('events.*')).toBe(
+      MatchExpression.compile('events.*'),
+    )
+  })
+
+  it('matches name globs and negations', () => {
+    const location = createLocation()
+
+    expect(eventRoute.match('events.*', location)).toEqual(true)
+    expect(eventRoute.match('events.index', location)).toEqual(false)
+    expect(logsRoute.match('!admin.logs.*', location)).toEqual(false)
+    expect(usersRoute.match('!admin.logs.*', location)).toEqual(true)
+  })
+
+  it('matches names with special characters literally', () => {
+    const location = createLocation()
+    const route = new Route(createRawRoute('c++(legacy).show', 'legacy'), {})
+
+    expect(route.match('c++(legacy).*', location)).toEqual(true)
+    expect(route.match('c+(legacy).show', location)).toEqual(false)
+    expect(eventRoute.match('events|admin.show', location)).toEqual(false)
+  })
+
+  it('matches parameter predicates', () => {
+    const location = createLocation()
+
+    expect(eventRoute.match('events.show[event=5|6]', location)).toEqual(true)
+    expect(eventRoute.match('events.show[event=6]', location)).toEqual(false)
+    expect(eventRoute.match('events.show[event!=6]', location)).toEqual(true)
+    expect(eventRoute.match('events.*[event]', location)).toEqual(true)
+    expect(eventRoute.match('events.*[venue]', location)).toEqual(false)
+  })
+
+  it('matches query predicates', () => {
+    expect(
+      usersRoute.match('admin.*?team=current', createLocation('?team=current')),
+    ).toEqual(true)
+    expect(
+      usersRoute.match('admin.*?team=current', createLocation('?team=other')),
+    ).toEqual(false)
+    expect(
+      usersRoute.match('admin.*?team&page!=2', createLocation('?team=a')),
+    ).toEqual(true)
+  })
+})
+
+describe('Router.match with lists', () => {
+  it('combines expressions and negations', () => {
+    const { match } = Router.prototype
+    const location = createLocation()
+
+    expect(match(['admin.*', '!admin.logs.*'], usersRoute, location, {})).toBe(
+      true,
+    )
+    expect(match(['admin.*', '!admin.logs.*'], logsRoute, location, {})).toBe(
+      false,
+    )
+    expect(match(['!admin.logs.*'], eventRoute, location, {})).toBe(true)
+    expect(match(['events.index', 'admin.*'], eventRoute, location, {})).toBe(
+      false,
+    )
+  })
+})
@@ -0,0 +1,38 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { OfflineQueue } from '../src'
+import { describe, expect, it } from 'vitest'
+
+describe('OfflineQueue', () => {
+  it('serializes objects', () => {
+    const data = {
+      title: 'Hello',
+      tags: ['a', 'b'],
+    }
+
+    expect(OfflineQueue.serialize(data)).toEqual({
+      type: 'object',
+      value: data,
+    })
+    expect(OfflineQueue.deserialize(OfflineQueue.serialize(data))).toEqual(data)
+  })
+
+  it('serializes form data including files', () => {
+    const file = new File(['content'], 'avatar.png', { type: 'image/png' })
+    const formData = new FormData()
+    formData.append('name', 'Navigare')
+    formData.append('avatar', file)
+
+    const serialized = OfflineQueue.serialize(formData)
+
+    expect(serialized.type).toEqual('form-data')
+    expect(serialized).toHaveProperty('entries.length', 2)
+
+    const deserialized = OfflineQueue.deserialize(serialized)
+
+    expect(deserialized).toBeInstanceOf(FormData)
+    expect((deserialized as FormData).get('name')).toEqual('Navigare')
+    expect((deserialized as FormData).get('avatar')).toBeInstanceOf(File)
+  })
+})
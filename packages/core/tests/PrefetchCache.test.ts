@@ -0,0 +1,123 @@
+import { Page, PrefetchCache, RouteMethod, TransportResponse } from '../src'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const createResponse = (href: string): TransportResponse<Page> => {
+  return {
+    data: {
+      location: {
+        href,
+      },
+    } as Page,
+    status: 200,
+    headers: {
+      'x-navigare': 'true',
+    },
+    url: href,
+  }
+}
+
+describe('PrefetchCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('creates keys from method, href and properties', () => {
+    expect(
+      PrefetchCache.createKey(RouteMethod.GET, 'https://navigare.test/posts'),
+    ).toEqual('GET https://navigare.test/posts')
+
+    expect(
+      PrefetchCache.createKey(RouteMethod.GET, 'https://navigare.test/posts', [
+        'posts',
+        'users',
+      ]),
+    ).toEqual('GET https://navigare.test/posts posts,users')
+
+    expect(
+      PrefetchCache.createKey(
+        RouteMethod.GET,
+        'https://navigare.test/posts',
+        'posts',
+      ),
+    ).toEqual('GET https://navigare.test/posts posts')
+  })
+
+  it('returns fresh, stale and expired responses', () => {
+    const cache = new PrefetchCache({
+      ttl: 100,
+      stale: 100,
+    })
+    const response = createResponse('https://navigare.test/posts')
+
+    cache.set('posts', response)
+
+    expect(cache.get('posts')).toEqual({
+      response,
+      stale: false,
+    })
+    expect(cache.has('posts')).toEqual(true)
+
+    vi.setSystemTime(150)
+
+    expect(cache.get('posts')).toEqual({
+      response,
+      stale: true,
+    })
+    expect(cache.has('posts')).toEqual(false)
+
+    vi.setSystemTime(250)
+
+    expect(cache.get('posts')).toBeUndefined()
+    expect(cache.size).toEqual(0)
+  })
+
+  it('allows to override the lifetime per entry', () => {
+    const cache = new PrefetchCache({
+      ttl: 100,
+      stale: 0,
+    })
+
+    cache.set('posts', createResponse('https://navigare.test/posts'), {
+      ttl: 1000,
+    })
+
+    vi.setSystemTime(500)
+
+    expect(cache.has('posts')).toEqual(true)
+  })
+
+  it('evicts the oldest entries', () => {
+    const cache = new PrefetchCache({
+      max: 2,
+    })
+
+    cache.set('a', createResponse('https://navigare.test/a'))
+    cache.set('b', createResponse('https://navigare.test/b'))
+    cache.set('a', createResponse('https://navigare.test/a'))
+    cache.set('c', createResponse('https://navigare.test/c'))
+
+    expect(cache.size).toEqual(2)
+    expect(cache.get('a')).toBeDefined()
+    expect(cache.get('b')).toBeUndefined()
+    expect(cache.get('c')).toBeDefined()
+  })
+
+  it('shares pending requests', async () => {
+    const cache = new PrefetchCache()
+    const response = createResponse('https://navigare.test/posts')
+    const request = Promise.resolve(response)
+
+    expect(cache.setPending('posts', request)).toBe(request)
+    expect(cache.getPending('posts')).toBe(request)
+
+    await request
+    await Promise.resolve()
+
+    expect(cache.getPending('posts')).toBeUndefined()
+  })
+})
@@ -0,0 +1,110 @@
+import { Page, PropertyCache } from '../src'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const createPage = (properties: Page['properties']): Page => {
+  return {
+    properties,
+    fragments: {
+      default: [
+        {
+          name: 'default',
+          properties: {
+            ...properties,
+          },
+        },
+      ],
+    },
+  } as unknown as Page
+}
+
+describe('PropertyCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('stores cacheable properties and re-inserts omitted ones', () => {
+    const cache = new PropertyCache()
+
+    cache.resolve(
+      createPage({
+        countries: ['DE', 'FR'],
+        users: [1],
+        __cache: {
+          countries: { key: 'countries', ttl: 60 },
+        },
+      }),
+    )
+
+    expect(cache.keys()).toEqual(['countries'])
+
+    const page = cache.resolve(
+      createPage({
+        countries: { __cached: 'countries' },
+        users: [2],
+      }),
+    )
+
+    expect(page.properties.countries).toEqual(['DE', 'FR'])
+    expect(page.fragments.default?.[0]?.properties.countries).toEqual([
+      'DE',
+      'FR',
+    ])
+    expect(page.properties.users).toEqual([2])
+  })
+
+  it('removes the cache instructions from the properties', () => {
+    const cache = new PropertyCache()
+
+    const page = cache.resolve(
+      createPage({
+        countries: ['DE', 'FR'],
+        __cache: {
+          countries: { key: 'countries', ttl: 60 },
+        },
+      }),
+    )
+
+    expect(page.properties).toEqual({
+      countries: ['DE', 'FR'],
+    })
+    expect(page.fragments.default?.[0]?.properties).not.toHaveProperty(
+      '__cache',
+    )
+  })
+
+  it('expires entries after their ttl', () => {
+    const cache = new PropertyCache()
+    cache.set('countries', ['DE'], 60)
+
+    vi.setSystemTime(60001)
+
+    expect(cache.keys()).toEqual([])
+    expect(cache.get('countries')).toBeUndefined()
+  })
+
+  it('defers omitted properties that are not cached anymore', () => {
+    const cache = new PropertyCache()
+
+    const page = cache.resolve(
+      createPage({
+        countries: { __cached: 'countries' },
+      }),
+    )
+
+    expect(page.properties.countries).toEqual({ __deferred: true })
+  })
+
+  it('evicts the oldest entries', () => {
+    const cache = new PropertyCache({ max: 2 })
+    cache.set('a', 1, 60)
+    cache.set('b', 2, 60)
+    cache.set('c', 3, 60)
+
+    expect(cache.keys()).toEqual(['b', 'c'])
+  })
+})
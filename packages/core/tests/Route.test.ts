@@ -740,3 +740,130 @@ describe('matches other routes', () => {
     ).toEqual(true)
   })
 })
+
+describe('validates parameters', () => {
+  it('resolves valid parameters', () => {
+    expect(
+      new Route(rawRoutes['postComments.show'] as never, {}).safeParse({
+        post: {
+          id: 1,
+        },
+        comment: {
+          uuid: 'abc',
+        },
+      } as never),
+    ).toEqual({
+      success: true,
+      parameters: {
+        post: '1',
+        comment: 'abc',
+      },
+    })
+
+    expect(
+      new Route(rawRoutes['translatePosts.index'] as never, {
+        locale: Default,
+      }).validate({
+        defaults,
+      }),
+    ).toEqual([])
+  })
+
+  it('reports missing segments', () => {
+    expect(
+      new Route(rawRoutes['translateTeam.user.show'] as never, {
+        locale: 'en',
+      }).validate(),
+    ).toEqual([
+      {
+        code: 'missing_parameter',
+        parameter: 'team',
+        message:
+          '"team" parameter is required for route "translateTeam.user.show"',
+      },
+      {
+        code: 'missing_parameter',
+        parameter: 'id',
+        message:
+          '"id" parameter is required for route "translateTeam.user.show"',
+      },
+    ])
+
+    expect(
+      new Route(rawRoutes['optional'] as never, {
+        id: 1,
+      }).validate(),
+    ).toEqual([])
+  })
+
+  it('reports pattern mismatches', () => {
+    expect(
+      new Route(rawRoutes['pages.requiredExtensionWhere'] as never, {
+        extension: '.pdf',
+      }).validate(),
+    ).toEqual([
+      {
+        code: 'pattern_mismatch',
+        parameter: 'extension',
+        message:
+          '"extension" parameter does not match required format "\\.(php|html)" for route "pages.requiredExtensionWhere"',
+      },
+    ])
+
+    expect(
+      new Route(rawRoutes['pages.optionalWhere'] as never, {}).validate(),
+    ).toEqual([])
+  })
+
+  it('reports wrong binding keys', () => {
+    expect(
+      new Route(rawRoutes['postComments.show'] as never, {
+        post: {
+          id: 1,
+        },
+        comment: {
+          id: 2,
+        },
+      }).validate(),
+    ).toEqual([
+      {
+        code: 'invalid_binding',
+        parameter: 'comment',
+        message:
+          'an object was passed to parameter "comment" but it is missing the property "uuid"',
+      },
+    ])
+
+    expect(
+      new Route(rawRoutes['translatePosts.show'] as never, {
+        locale: 'en',
+        id: {
+          id: 1,
+        },
+      })
+        .validate()
+        .map(({ code }) => code),
+    ).toEqual(['invalid_binding'])
+  })
+
+  it('reports unknown parameters in strict mode', () => {
+    const route = new Route(rawRoutes['events.venues.index'] as never, {
+      event: 1,
+      guests: ['a', 'b'],
+    })
+
+    expect(route.validate()).toEqual([])
+
+    expect(
+      route.validate({
+        strict: true,
+      }),
+    ).toEqual([
+      {
+        code: 'unknown_parameter',
+        parameter: 'guests',
+        message: '"guests" is not a parameter of route "events.venues.index"',
+      },
+    ])
+  })
+})
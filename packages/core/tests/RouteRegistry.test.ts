@@ -0,0 +1,118 @@
+import { RawRoutes, RouteRegistry } from '../src'
+import { describe, expect, it } from 'vitest'
+
+const base = 'https://navigare.test/'
+
+const rawRoutes: RawRoutes = {
+  home: {
+    uri: '/',
+    methods: ['GET', 'HEAD'],
+    name: 'home' as never,
+  },
+  'posts.show': {
+    uri: 'posts/{post}',
+    methods: ['GET', 'HEAD'],
+    bindings: {
+      post: 'id',
+    },
+    wheres: {
+      post: '[0-9]+',
+    },
+    name: 'posts.show' as never,
+  },
+  'posts.slug': {
+    uri: 'posts/{slug}',
+    methods: ['GET', 'HEAD'],
+    name: 'posts.slug' as never,
+  },
+  'posts.update': {
+    uri: 'posts/{post}',
+    methods: ['PUT'],
+    name: 'posts.update' as never,
+  },
+  'pages.optional': {
+    uri: 'pages/{page?}',
+    methods: ['GET', 'HEAD'],
+    name: 'pages.optional' as never,
+  },
+  'team.user.show': {
+    uri: 'users/{id}',
+    methods: ['GET', 'HEAD'],
+    domain: '{team}.navigare.test',
+    name: 'team.user.show' as never,
+  },
+}
+
+describe('RouteRegistry', () => {
+  const registry = new RouteRegistry(rawRoutes)
+
+  it('resolves hrefs into routes, parameters and query', () => {
+    const match = registry.parse('/posts/1?page=2&tags[]=a', base)
+
+    expect(match?.route.name).toEqual('posts.show')
+    expect(match?.parameters).toEqual({
+      post: '1',
+    })
+    expect(match?.query).toEqual({
+      page: '2',
+      tags: ['a'],
+    })
+
+    expect(registry.parse('/', base)?.route.name).toEqual('home')
+    expect(registry.parse('/posts/1/', base)?.route.name).toEqual('posts.show')
+  })
+
+  it('respects wheres and methods', () => {
+    expect(registry.parse('/posts/hello%20world', base)).toMatchObject({
+      parameters: {
+        slug: 'hello world',
+      },
+    })
+
+    expect(
+      registry.parse('/posts/1', base, {
+        method: 'PUT',
+      })?.route.name,
+    ).toEqual('posts.update')
+  })
+
+  it('handles optional segments', () => {
+    expect(registry.parse('/pages', base)?.parameters).toEqual({})
+    expect(registry.parse('/pages/about', base)?.parameters).toEqual({
+      page: 'about',
+    })
+  })
+
+  it('matches domains', () => {
+    const match = registry.parse('https://acme.navigare.test/users/5', base)
+
+    expect(match?.route.name).toEqual('team.user.show')
+    expect(match?.parameters).toEqual({
+      team: 'acme',
+      id: '5',
+    })
+
+    expect(registry.parse('https://example.test/posts/1', base)).toBeNull()
+    expect(registry.parse('/unknown', base)).toBeNull()
+  })
+
+  it('creates routes that compile to the same href', () => {
+    const { href, host, hostname, origin, pathname, port, protocol } = new URL(
+      base,
+    )
+
+    expect(
+      registry.parse('/posts/1', base)?.route.getHref({
+        href,
+        host,
+        hostname,
+        origin,
+        pathname,
+        port,
+        protocol,
+        search: '',
+        hash: '',
+      }),
+    ).toEqual('/posts/1')
+  })
+})
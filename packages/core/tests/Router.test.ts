@@ -0,0 +1,1850 @@
+/**
+ * @vitest-environment jsdom
+ */
+import {
+  AxiosTransport,
+  FetchTransport,
+  Fragment,
+  LivePatch,
+  OfflineQueue,
+  OfflineVisit,
+  Page,
+  Router,
+  RouteMethod,
+  Transport,
+  TransportError,
+  TransportRequest,
+  TransportResponse,
+  serialize,
+  wait,
+} from '../src'
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  SpyInstance,
+  vi,
+} from 'vitest'
+
+const createVersionTransport = (version: string) => {
+  return {
+    request: vi.fn(async (request: TransportRequest) => {
+      throw new TransportError('Request failed with status code 409', request, {
+        response: {
+          status: 409,
+          headers: {
+            'x-navigare-location': request.url,
+            'x-navigare-version': version,
+          },
+          data: '',
+          url: request.url,
+        },
+      })
+    }),
+  }
+}
+
+const createPage = (pathname = '/'): Page => {
+  const url = new URL(pathname, window.location.href)
+  const location = {
+    href: url.href,
+    host: url.host,
+    hostname: url.hostname,
+    origin: url.origin,
+    pathname: url.pathname,
+    port: url.port,
+    protocol: url.protocol,
+    search: '',
+    hash: '',
+  }
+
+  return {
+    visit: {
+      id: 'initial',
+      method: RouteMethod.GET,
+      location,
+    },
+    csrf: null,
+    properties: {
+      errors: {},
+    },
+    rawRoute: {
+      name: 'home',
+      uri: '/',
+      methods: ['GET', 'HEAD'],
+    },
+    location,
+    defaults: {},
+    parameters: {},
+    version: null,
+    layout: null,
+    timestamp: 0,
+    obsolete: false,
+    scrollRegions: [],
+    rememberedState: {},
+    fragments: {},
+  } as unknown as Page
+}
+
+const createFragment = (name: string, pathname: string): Fragment => {
+  const page: Omit<Page, 'fragments'> = createPage(pathname)
+
+  return {
+    name,
+    component: { id: pathname, path: `${pathname}.js` },
+    properties: {},
+    page,
+    fallback: false,
+  }
+}
+
+const createPageTransport = () => {
+  return {
+    request: vi.fn(async (request: TransportRequest) => {
+      return {
+        status: 200,
+        headers: {
+          'x-navigare': 'true',
+        },
+        data: createPage(new URL(request.url).pathname),
+        url: request.url,
+      }
+    }),
+  }
+}
+
+const createPendingTransport = () => {
+  const responses: Array<() => void> = []
+
+  return {
+    responses,
+    request: vi.fn((request: TransportRequest) => {
+      return new Promise<TransportResponse>((resolve, reject) => {
+        request.signal?.addEventListener('abort', () => {
+          reject(
+            new TransportError('Request was cancelled', request, {
+              cancelled: true,
+            }),
+          )
+        })
+        responses.push(() => {
+          resolve({
+            status: 200,
+            headers: {
+              'x-navigare': 'true',
+            },
+            data: createPage(new URL(request.url).pathname),
+            url: request.url,
+          })
+        })
+      })
+    }),
+  }
+}
+
+const createFailingTransport = (statuses: number[]) => {
+  const pendingStatuses = [...statuses]
+
+  return {
+    request: vi.fn(async (request: TransportRequest) => {
+      const status = pendingStatuses.shift()
+
+      if (status) {
+        throw new TransportError(
+          `Request failed with status code ${status}`,
+          request,
+          {
+            response: {
+              status,
+              headers: {},
+              data: {},
+              url: request.url,
+            },
+          },
+        )
+      }
+
+      return {
+        status: 200,
+        headers: {
+          'x-navigare': 'true',
+        },
+        data: createPage(new URL(request.url).pathname),
+        url: request.url,
+      }
+    }),
+  }
+}
+
+const createStoredPage = (id: string, pathname: string): Page => {
+  const page = createPage(pathname)
+
+  return {
+    ...page,
+    visit: {
+      ...page.visit,
+      id,
+    },
+  }
+}
+
+const storePageStack = (pages: Page[], pageIndex: number) => {
+  window.sessionStorage.setItem(
+    'navigarePageStack',
+    serialize({
+      pages,
+      pageIndex,
+    }),
+  )
+  window.history.replaceState(serialize(pages[pageIndex]), '')
+}
+
+describe('Router', () => {
+  beforeAll(() => {
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined)
+  })
+
+  // Routers finish their setup asynchronously
+  afterEach(async () => {
+    await wait(0)
+    window.sessionStorage.clear()
+  })
+
+  it('navigates to hashes without requests', async () => {
+    const transport = {
+      request: vi.fn(),
+    }
+    const router = new Router({
+      initialPage: createPage(),
+      base: '/',
+      transport,
+    })
+    const section = document.createElement('section')
+    section.id = 'comments'
+    section.scrollIntoView = vi.fn()
+    document.body.append(section)
+
+    const hashchange = vi.fn()
+    router.on('hashchange', (event) => {
+      hashchange(event.detail.hash, event.detail.previousHash)
+    })
+
+    const visit = await router.visit('#comments')
+
+    expect(transport.request).not.toHaveBeenCalled()
+    expect(visit.completed).toBe(true)
+    expect(router.location.hash).toEqual('#comments')
+    expect(router.pages).toHaveLength(2)
+    expect(router.pages[0].visit.id).toEqual(router.pages[1].visit.id)
+    expect(window.location.hash).toEqual('#comments')
+    expect(section.scrollIntoView).toHaveBeenCalledWith({
+      behavior: 'smooth',
+    })
+    expect(hashchange).toHaveBeenCalledWith('#comments', '')
+  })
+
+  it('requests pages via the transport', async () => {
+    const transport: Transport = {
+      request: vi.fn(async (request) => {
+        return {
+          status: 200,
+          headers: {
+            'x-navigare': 'true',
+          },
+          data: createPage('/posts'),
+          url: request.url,
+        }
+      }),
+    }
+    const router = new Router({
+      initialPage: createPage(),
+      base: '/',
+      transport,
+    })
+
+    await router.visit('/posts')
+
+    expect(transport.request).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: RouteMethod.GET,
+        url: `${window.location.origin}/posts`,
+        headers: expect.objectContaining({
+          'X-Navigare': true,
+        }),
+      }),
+    )
+    expect(router.location.pathname).toEqual('/posts')
+  })
+
+  it('reuses prefetched responses for visits', async () => {
+    const transport = createPageTransport()
+    const router = new Router({
+      initialPage: createPage(),
+      base: '/',
+      transport,
+    })
+
+    await router.prefetch('/posts')
+
+    expect(transport.request).toHaveBeenCalledTimes(1)
+
+    await router.visit('/posts')
+
+    expect(transport.request).toHaveBeenCalledTimes(1)
+    expect(router.location.pathname).toEqual('/posts')
+  })
+
+  it('shows stale prefetched responses and revalidates them', async () => {
+    let version = 0
+    const transport = {
+      request: vi.fn(async (request: TransportRequest) => {
+        version++
+
+        return {
+          status: 200,
+          headers: {
+            'x-navigare': 'true',
+          },
+          data: {
+            ...createPage(new URL(request.url).pathname),
+            properties: {
+              version,
+            },
+          },
+          url: request.url,
+        }
+      }),
+    }
+    const router = new Router({
+      initialPage: createPage(),
+      base: '/',
+      transport,
+    })
+
+    await router.prefetch('/posts', {
+      ttl: 0,
+    })
+    await wait(5)
+    await router.visit('/posts')
+
+    expect(router.page.properties.version).toEqual(1)
+
+    await wait(10)
+
+    expect(transport.request).toHaveBeenCalledTimes(2)
+    expect(router.location.pathname).toEqual('/posts')
+    expect(router.page.properties.version).toEqual(2)
+  })
+
+  it('clears prefetched responses after mutations', async () => {
+    const transport = createPageTransport()
+    const router = new Router({
+      initialPage: createPage(),
+      base: '/',
+      transport,
+    })
+
+    await router.prefetch('/posts')
+    await router.visit('/posts', {
+      method: 'POST',
+    })
+    await router.visit('/posts')
+
+    expect(transport.request).toHaveBeenCalledTimes(3)
+  })
+
+  it('uses axios unless the app opts into another transport', () => {
+    expect(
+      new Router({
+        initialPage: createPage(),
+        base: '/',
+      }).transport,
+    ).toBeInstanceOf(AxiosTransport)
+
+    const transport = new FetchTransport()
+
+    expect(
+      new Router({
+        initialPage: createPage(),
+        base: '/',
+        transport,
+      }).transport,
+    ).toBe(transport)
+  })
+
+  it('waits for the next navigation to apply version changes', async () => {
+    window.sessionStorage.clear()
+    const transport = createVersionTransport('2')
+    const versionChange = vi.fn()
+    const router = new Router({
+      initialPage: createPage(),
+      base: '/',
+      transport,
+      versionStrategy: 'navigate',
+      events: {
+        versionChange: (event) => {
+          versionChange(event.detail.version, event.detail.strategy)
+        },
+      },
+    })
+
+    await router.visit('/', {
+      background: true,
+    })
+
+    expect(versionChange).toHaveBeenCalledWith('2', 'navigate')
+    expect(router.versionChange?.version).toEqual('2')
+    expect(window.sessionStorage.getItem('navigareRedirect')).toBeNull()
+
+    await router.visit('/posts')
+
+    expect(transport.request).toHaveBeenCalledTimes(1)
+    expect(window.sessionStorage.getItem('navigareRedirect')).not.toBeNull()
+  })
+
+  it('lets listeners prevent version changes', async () => {
+    window.sessionStorage.clear()
+    const router = new Router({
+      initialPage: createPage(),
+      base: '/',
+      transport: createVersionTransport('2'),
+      events: {
+        versionChange: (event) => {
+          event.preventDefault()
+        },
+      },
+    })
+
+    await router.visit('/posts')
+
+    expect(router.versionChange).toBeNull()
+    expect(window.sessionStorage.getItem('navigareRedirect')).toBeNull()
+  })
+
+  it('merges live patches of subscribed channels', async () => {
+    let onPatch: (patch: LivePatch) => void = () => undefined
+    const close = vi.fn()
+    const createSource = vi.fn((_url, listener) => {
+      onPatch = listener
+
+      return {
+        close,
+      }
+    })
+    const router = new Router({
+      initialPage: {
+        ...createPage(),
+        fragments: {
+          default: [
+            {
+              name: 'default',
+              component: {
+                id: 'Dashboard',
+                path: 'Dashboard.js',
+              },
+              properties: {
+                count: 1,
+                title: 'Dashboard',
+              },
+            },
+          ],
+        },
+      } as unknown as Page,
+      base: '/',
+      live: {
+        url: (channel) => `/live/${channel}`,
+        createSource,
+      },
+    })
+    const navigate = vi.fn()
+    router.on('navigate', (event) => {
+      navigate(event.detail.replace)
+    })
+
+    const unsubscribe = router.subscribe('dashboard')
+    const unsubscribeAgain = router.subscribe('dashboard')
+
+    onPatch({
+      properties: {
+        online: 3,
+      },
+      fragments: {
+        default: {
+          count: 2,
+        },
+      },
+    })
+    await wait(0)
+
+    expect(createSource).toHaveBeenCalledTimes(1)
+    expect(createSource.mock.calls[0][0]).toEqual('/live/dashboard')
+    expect(navigate).toHaveBeenCalledWith(true)
+    expect(router.page.properties.online).toEqual(3)
+    expect(router.page.fragments.default?.[0]?.properties).toEqual({
+      count: 2,
+      title: 'Dashboard',
+    })
+
+    unsubscribe()
+    expect(close).not.toHaveBeenCalled()
+
+    unsubscribeAgain()
+    expect(close).toHaveBeenCalledTimes(1)
+  })
+
+  it('applies patches against the page sent by the server', async () => {
+    const transport = {
+      request: vi.fn(
+        async (request: TransportRequest): Promise<TransportResponse> => {
+          if (!request.headers?.['X-Navigare-Property-Hashes']) {
+            return {
+              status: 200,
+              headers: {
+                'x-navigare': 'true',
+                'x-navigare-property-hashes': 'users=a',
+              },
+              data: {
+                ...createPage(),
+                properties: {
+                  users: ['Ada', 'Grace'],
+                },
+              },
+              url: request.url,
+            }
+          }
+
+          return {
+            status: 200,
+            headers: {
+              'x-navigare': 'true',
+              'x-navigare-patch': 'json-patch',
+              'x-navigare-property-hashes': 'users=b',
+            },
+            data: [
+              {
+                op: 'replace',
+                path: '/properties/users/1',
+                value: 'Linus',
+              },
+            ],
+            url: request.url,
+          }
+        },
+      ),
+    }
+    const router = new Router({
+      initialPage: createPage(),
+      base: '/',
+      transport,
+    })
+
+    await router.reload()
+
+    // Changes of the client must not affect the document of the server
+    await router['updateProperties']({
+      ...router.page.properties,
+      users: ['Ada'],
+    })
+
+    await router.reload()
+
+    expect(transport.request).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'X-Navigare-Property-Hashes': ['users=a'],
+        }),
+      }),
+    )
+    expect(router.page.properties.users).toEqual(['Ada', 'Linus'])
+
+    await router.reload()
+
+    expect(transport.request).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'X-Navigare-Property-Hashes': ['users=b'],
+        }),
+      }),
+    )
+    expect(router.page.properties.users).toEqual(['Ada', 'Linus'])
+  })
+
+  it('keeps the patch document while loading deferred properties', async () => {
+    const transport = {
+      request: vi.fn(
+        async (request: TransportRequest): Promise<TransportResponse> => {
+          if (request.headers?.['X-Navigare-Properties']) {
+            return {
+              status: 200,
+              headers: {
+                'x-navigare': 'true',
+              },
+              data: {
+                ...createPage(),
+                properties: {
+                  comments: ['First'],
+                },
+              },
+              url: request.url,
+            }
+          }
+
+          if (!request.headers?.['X-Navigare-Property-Hashes']) {
+            return {
+              status: 200,
+              headers: {
+                'x-navigare': 'true',
+                'x-navigare-property-hashes': 'users=a',
+              },
+              data: {
+                ...createPage(),
+                properties: {
+                  users: ['Ada', 'Grace'],
+                  comments: { __deferred: true, __lazy: true },
+                },
+              },
+              url: request.url,
+            }
+          }
+
+          return {
+            status: 200,
+            headers: {
+              'x-navigare': 'true',
+              'x-navigare-patch': 'json-patch',
+              'x-navigare-property-hashes': 'users=b',
+            },
+            data: [
+              {
+                op: 'replace',
+                path: '/properties/users/1',
+                value: 'Linus',
+              },
+            ],
+            url: request.url,
+          }
+        },
+      ),
+    }
+    const router = new Router({
+      initialPage: createPage(),
+      base: '/',
+      transport,
+    })
+
+    await router.reload()
+    await router.loadDeferred(['comments'])
+
+    expect(router.page.properties.comments).toEqual(['First'])
+
+    await router.reload()
+
+    expect(transport.request).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'X-Navigare-Property-Hashes': ['users=a'],
+        }),
+      }),
+    )
+    expect(router.page.properties.users).toEqual(['Ada', 'Linus'])
+  })
+
+  it('loads deferred groups by priority and marks failed ones', async () => {
+    const requested: string[] = []
+    const transport: Transport = {
+      request: vi.fn(async (request) => {
+        const properties = String(
+          request.headers?.['X-Navigare-Properties'] ?? '',
+        )
+        requested.push(properties)
+
+        if (properties === 'chart') {
+          throw new TransportError('Request failed', request, {
+            response: {
+              status: 500,
+              headers: {},
+              data: '',
+              url: request.url,
+            },
+          })
+        }
+
+        return {
+          status: 200,
+          headers: {
+            'x-navigare': 'true',
+          },
+          data: {
+            ...createPage(),
+            properties: {
+              stats: 5,
+              users: 10,
+            },
+          },
+          url: request.url,
+        }
+      }),
+    }
+    const router = new Router({
+      initialPage: {
+        ...createPage(),
+        properties: {
+          stats: { __deferred: true, __group: 'summary', __priority: 1 },
+          users: { __deferred: true, __group: 'summary' },
+          chart: { __deferred: true },
+          comments: { __deferred: true, __lazy: true },
+        },
+      },
+      base: '/',
+      transport,
+    })
+
+    await wait(50)
+
+    expect(requested).toEqual(['stats,users', 'chart'])
+    expect(router.page.properties.stats).toEqual(5)
+    expect(router.page.properties.users).toEqual(10)
+    expect(router.page.properties.chart).toMatchObject({
+      __key: 'chart',
+      __loading: false,
+      __failed: true,
+    })
+    expect(router.page.properties.comments).not.toHaveProperty('__requested')
+
+    await router.loadDeferred(['comments'])
+
+    expect(requested).toEqual(['stats,users', 'chart', 'comments'])
+  })
+
+  it('merges properties of partial reloads via their strategy', async () => {
+    const transport: Transport = {
+      request: vi.fn(async (request) => {
+        return {
+          status: 200,
+          headers: {
+            'x-navigare': 'true',
+          },
+          data: {
+            ...createPage('/?page=2'),
+            properties: {
+              posts: { data: [3], next: null },
+              __merge: { posts: 'append' },
+            },
+          },
+          url: request.url,
+        }
+      }),
+    }
+    const router = new Router({
+      initialPage: {
+        ...createPage(),
+        properties: {
+          posts: { data: [1, 2], next: 2 },
+        },
+      },
+      base: '/',
+      transport,
+    })
+
+    await router.reload({
+      properties: ['posts'],
+      data: { page: 2 },
+      preserveURL: true,
+    })
+
+    expect(router.page.properties.posts).toEqual({
+      data: [1, 2, 3],
+      next: null,
+    })
+  })
+
+  it('omits cached properties from subsequent requests', async () => {
+    const transport: Transport = {
+      request: vi.fn(async (request) => {
+        const { pathname } = new URL(request.url)
+
+        return {
+          status: 200,
+          headers: {
+            'x-navigare': 'true',
+          },
+          data: {
+            ...createPage(pathname),
+            properties:
+              pathname === '/'
+                ? {
+                    countries: { __cached: 'countries:1' },
+                  }
+                : {},
+          },
+          url: request.url,
+        }
+      }),
+    }
+    const router = new Router({
+      initialPage: {
+        ...createPage(),
+        properties: {
+          countries: ['DE', 'FR'],
+          __cache: {
+            countries: { key: 'countries:1', ttl: 60 },
+          },
+        },
+      },
+      base: '/',
+      transport,
+    })
+
+    await router.reload()
+
+    expect(transport.request).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'X-Navigare-Cached': ['countries:1'],
+        }),
+      }),
+    )
+    expect(router.page.properties.countries).toEqual(['DE', 'FR'])
+
+    // Other pages share the cached property
+    await router.visit('/posts')
+
+    expect(transport.request).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'X-Navigare-Cached': ['countries:1'],
+        }),
+      }),
+    )
+    expect(router.page.properties).not.toHaveProperty('__cache')
+  })
+
+  it('clears cached properties after mutations', async () => {
+    const transport = createPageTransport()
+    const router = new Router({
+      initialPage: {
+        ...createPage(),
+        properties: {
+          countries: ['DE', 'FR'],
+          __cache: {
+            countries: { key: 'countries:1', ttl: 60 },
+          },
+        },
+      },
+      base: '/',
+      transport,
+    })
+
+    await router.visit('/', {
+      method: 'POST',
+    })
+
+    expect(transport.request).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        headers: expect.not.objectContaining({
+          'X-Navigare-Cached': expect.anything(),
+        }),
+      }),
+    )
+  })
+
+  it('wraps navigations in view transitions', async () => {
+    const transport: Transport = {
+      request: vi.fn(async (request) => {
+        return {
+          status: 200,
+          headers: {
+            'x-navigare': 'true',
+          },
+          data: createPage(new URL(request.url).pathname),
+          url: request.url,
+        }
+      }),
+    }
+    const directions: (string | undefined)[] = []
+    const startViewTransition = vi.fn((update: () => Promise<void>) => {
+      directions.push(document.documentElement.dataset.navigareTransition)
+      const updateCallbackDone = update()
+
+      return {
+        updateCallbackDone,
+        ready: updateCallbackDone,
+        finished: updateCallbackDone,
+      }
+    })
+    Object.assign(document, { startViewTransition })
+    const router = new Router({
+      initialPage: createPage(),
+      base: '/',
+      transport,
+      transitions: true,
+    })
+
+    await router.visit('/posts')
+    await router.reload()
+
+    expect(startViewTransition).toHaveBeenCalledTimes(1)
+    expect(directions).toEqual(['forward'])
+    expect(router.transitionDirection).toEqual('forward')
+
+    Reflect.deleteProperty(document, 'startViewTransition')
+  })
+
+  it('closes modals without requests', async () => {
+    const transport = {
+      request: vi.fn(),
+    }
+    const router = new Router({
+      initialPage: {
+        ...createPage('/contacts/1/edit'),
+        fragments: {
+          default: [createFragment('default', '/contacts')],
+          modal: [createFragment('modal', '/contacts/1/edit')],
+        },
+      },
+      base: '/',
+      transport,
+      fragments: {
+        modal: {
+          stacked: true,
+        },
+      },
+    })
+
+    await router.closeFragment('modal')
+
+    expect(router.location.pathname).toEqual('/contacts')
+    expect(router.page.fragments.modal).toBeNull()
+    expect(router.page.fragments.default).toHaveLength(1)
+    expect(transport.request).not.toHaveBeenCalled()
+  })
+
+  it('closes stacked modals along with the ones above them', async () => {
+    const transport = {
+      request: vi.fn(async (request: TransportRequest) => {
+        const { pathname } = new URL(request.url)
+
+        return {
+          status: 200,
+          headers: {
+            'x-navigare': 'true',
+          },
+          data: {
+            ...createPage(pathname),
+            fragments: {
+              default: [createFragment('default', '/contacts')],
+              modal: [createFragment('modal', pathname)],
+            },
+          },
+          url: request.url,
+        }
+      }),
+    }
+    const router = new Router({
+      initialPage: {
+        ...createPage('/contacts/1/edit'),
+        fragments: {
+          default: [createFragment('default', '/contacts')],
+          modal: [createFragment('modal', '/contacts/1/edit')],
+        },
+      },
+      base: '/',
+      transport,
+      fragments: {
+        modal: {
+          stacked: true,
+        },
+      },
+    })
+
+    await router.visit('/contacts/1/notes', {
+      fragmentName: 'modal',
+    })
+    await router.visit('/contacts/1/notes/2', {
+      fragmentName: 'modal',
+    })
+
+    expect(router.page.fragments.modal).toHaveLength(3)
+
+    await router.closeFragment('modal', 1)
+
+    expect(router.location.pathname).toEqual('/contacts/1/edit')
+    expect(router.page.fragments.modal).toHaveLength(1)
+
+    await router.closeFragment('modal')
+
+    expect(router.location.pathname).toEqual('/contacts')
+    expect(router.page.fragments.modal).toBeNull()
+    expect(transport.request).toHaveBeenCalledTimes(2)
+  })
+
+  it('shares one timer between polls of the same properties', async () => {
+    const transport = createPageTransport()
+    const router = new Router({
+      initialPage: createPage(),
+      base: '/',
+      transport,
+    })
+
+    const stopPosts = router.poll(20, {
+      properties: ['posts', 'users'],
+    })
+    const stopUsers = router.poll(20, {
+      properties: ['users', 'posts'],
+    })
+    await wait(30)
+
+    expect(transport.request).toHaveBeenCalledTimes(1)
+    expect(transport.request).toHaveBeenCalledWith(
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'X-Navigare-Properties': ['posts', 'users'],
+        }),
+      }),
+    )
+
+    stopPosts()
+    stopUsers()
+    transport.request.mockClear()
+    await wait(50)
+
+    expect(transport.request).not.toHaveBeenCalled()
+  })
+
+  it('pauses polls while the document is hidden', async () => {
+    let hidden = true
+    Object.defineProperty(document, 'hidden', {
+      configurable: true,
+      get: () => hidden,
+    })
+    const transport = createPageTransport()
+    const router = new Router({
+      initialPage: createPage(),
+      base: '/',
+      transport,
+    })
+
+    const stop = router.poll(20)
+    await wait(50)
+
+    expect(transport.request).not.toHaveBeenCalled()
+
+    // Skipped polls catch up once the document is visible again, which is
+    // checked without further ticks of the interval
+    hidden = false
+    document.dispatchEvent(new Event('visibilitychange'))
+    stop()
+    await wait(0)
+
+    expect(transport.request).toHaveBeenCalledTimes(1)
+
+    Reflect.deleteProperty(document, 'hidden')
+  })
+
+  it('restores the page stack after a refresh', async () => {
+    storePageStack(
+      [
+        createStoredPage('posts', '/posts'),
+        createStoredPage('post', '/posts/1'),
+      ],
+      1,
+    )
+    const router = new Router({
+      initialPage: createPage('/posts/1'),
+      base: '/',
+      transport: createPageTransport(),
+    })
+
+    expect(router.pages).toHaveLength(2)
+    expect(router.pages[0].visit.id).toEqual('posts')
+    expect(router.previousPage?.location.pathname).toEqual('/posts')
+    expect(router.location.pathname).toEqual('/posts/1')
+  })
+
+  it('navigates back and forth across the restored stack', async () => {
+    storePageStack(
+      [
+        createStoredPage('posts', '/posts'),
+        createStoredPage('post', '/posts/1'),
+      ],
+      1,
+    )
+    const transport = createPageTransport()
+    const router = new Router({
+      initialPage: createPage('/posts/1'),
+      base: '/',
+      transport,
+    })
+    const navigate = vi.fn()
+    router.on('navigate', (event) => {
+      navigate(event.detail.pageIndex)
+    })
+    const [previousPage, currentPage] = router.pages
+
+    await router['handlePopstateEvent'](
+      new PopStateEvent('popstate', {
+        state: serialize(previousPage),
+      }),
+    )
+
+    expect(router.location.pathname).toEqual('/posts')
+    expect(router.transitionDirection).toEqual('back')
+
+    await router['handlePopstateEvent'](
+      new PopStateEvent('popstate', {
+        state: serialize(currentPage),
+      }),
+    )
+
+    expect(router.location.pathname).toEqual('/posts/1')
+    expect(router.transitionDirection).toEqual('forward')
+    expect(navigate.mock.calls).toEqual([[0], [1]])
+    expect(transport.request).not.toHaveBeenCalled()
+  })
+
+  it('reloads pages of an outdated version when navigating back', async () => {
+    storePageStack(
+      [
+        createStoredPage('posts', '/posts'),
+        createStoredPage('post', '/posts/1'),
+      ],
+      1,
+    )
+    const transport = createPageTransport()
+    const router = new Router({
+      initialPage: {
+        ...createPage('/posts/1'),
+        version: '2',
+      },
+      base: '/',
+      transport,
+    })
+
+    await router['handlePopstateEvent'](
+      new PopStateEvent('popstate', {
+        state: serialize(router.pages[0]),
+      }),
+    )
+
+    expect(transport.request).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: `${window.location.origin}/posts`,
+      }),
+    )
+  })
+
+  it('applies optimistic updates until the server responds', async () => {
+    const router = new Router({
+      initialPage: {
+        ...createPage('/posts'),
+        properties: {
+          errors: {},
+          posts: ['first'],
+        },
+      },
+      base: '/',
+      transport: {
+        request: vi.fn(async (request: TransportRequest) => {
+          expect(router.page.properties.posts).toEqual(['first', 'second'])
+
+          return {
+            status: 200,
+            headers: {
+              'x-navigare': 'true',
+            },
+            data: {
+              ...createPage('/posts'),
+              properties: {
+                errors: {},
+                posts: ['first', 'second', 'third'],
+              },
+            },
+            url: request.url,
+          }
+        }),
+      },
+    })
+    const navigate = vi.fn()
+    router.on('navigate', (event) => {
+      navigate(event.detail.page.properties.posts)
+    })
+
+    await router.visit('/posts', {
+      method: RouteMethod.POST,
+      optimistic: (properties) => {
+        return {
+          posts: [...(properties.posts as string[]), 'second'],
+        }
+      },
+    })
+
+    expect(navigate.mock.calls).toEqual([
+      [['first', 'second']],
+      [['first', 'second', 'third']],
+    ])
+    expect(router.page.properties.posts).toEqual(['first', 'second', 'third'])
+  })
+
+  it('rolls back optimistic updates after applying error responses', async () => {
+    const router = new Router({
+      initialPage: {
+        ...createPage('/posts'),
+        properties: {
+          errors: {},
+          posts: ['first'],
+        },
+      },
+      base: '/',
+      transport: {
+        request: vi.fn(async (request: TransportRequest) => {
+          return {
+            status: 200,
+            headers: {
+              'x-navigare': 'true',
+            },
+            data: {
+              ...createPage('/posts'),
+              properties: {
+                __errors: {
+                  title: 'The title is required.',
+                },
+                posts: ['first', 'invalid'],
+                users: ['admin'],
+              },
+            },
+            url: request.url,
+          }
+        }),
+      },
+    })
+    const error = vi.fn()
+    router.on('error', (event) => {
+      error(event.detail.errors, {
+        ...router.page.properties,
+      })
+    })
+
+    await router.visit('/posts', {
+      method: RouteMethod.POST,
+      optimistic: () => {
+        return {
+          posts: ['first', 'second'],
+        }
+      },
+    })
+
+    expect(error).toHaveBeenCalledWith(
+      {
+        title: ['The title is required.'],
+      },
+      expect.objectContaining({
+        posts: ['first'],
+        users: ['admin'],
+      }),
+    )
+  })
+
+  it('rolls back optimistic updates before reporting failures', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    const router = new Router({
+      initialPage: {
+        ...createPage('/posts'),
+        properties: {
+          errors: {},
+          posts: ['first'],
+        },
+      },
+      base: '/',
+      transport: {
+        request: vi.fn(async () => {
+          // Properties received in the meantime must survive the rollback
+          await router['updateProperties']({
+            ...router.page.properties,
+            users: ['admin'],
+          })
+
+          throw new Error('Network Error')
+        }),
+      },
+    })
+    const exception = vi.fn()
+    router.on('exception', () => {
+      exception({
+        ...router.page.properties,
+      })
+    })
+
+    await router.visit('/posts', {
+      method: RouteMethod.POST,
+      optimistic: () => {
+        return {
+          posts: ['first', 'second'],
+          draft: true,
+        }
+      },
+    })
+
+    expect(exception).toHaveBeenCalledWith({
+      errors: {},
+      posts: ['first'],
+      users: ['admin'],
+    })
+
+    error.mockRestore()
+  })
+
+  it('retries failed requests with a backoff', async () => {
+    const transport = createFailingTransport([502, 503, 504])
+    const router = new Router({
+      initialPage: createPage(),
+      base: '/',
+      transport,
+      retry: {
+        delay: 1,
+        jitter: 0,
+      },
+    })
+    const retry = vi.fn()
+
+    await router.visit('/posts', {
+      events: {
+        retry,
+      },
+    })
+
+    expect(transport.request).toHaveBeenCalledTimes(4)
+    expect(retry.mock.calls.map(([event]) => event.detail.attempt)).toEqual([
+      1, 2, 3,
+    ])
+    expect(router.location.pathname).toEqual('/posts')
+  })
+
+  it('does not retry non-idempotent requests', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    const transport = createFailingTransport([503])
+    const router = new Router({
+      initialPage: createPage('/posts'),
+      base: '/',
+      transport,
+      retry: true,
+    })
+    const retry = vi.fn()
+    const exception = vi.fn()
+
+    await router.visit('/posts', {
+      method: RouteMethod.POST,
+      events: {
+        retry,
+        exception,
+      },
+    })
+
+    expect(transport.request).toHaveBeenCalledTimes(1)
+    expect(retry).not.toHaveBeenCalled()
+    expect(exception).toHaveBeenCalledTimes(1)
+
+    error.mockRestore()
+  })
+
+  it('stops retrying when the visit is cancelled during the backoff', async () => {
+    const transport = createFailingTransport([503, 503])
+    const router = new Router({
+      initialPage: createPage(),
+      base: '/',
+      transport,
+      retry: {
+        delay: 20,
+        jitter: 0,
+      },
+    })
+    const cancel = vi.fn()
+
+    await router.visit('/posts', {
+      events: {
+        retry: (event) => {
+          setTimeout(() => {
+            event.detail.visit.cancel?.()
+          }, 0)
+        },
+        cancel,
+      },
+    })
+    await wait(50)
+
+    expect(transport.request).toHaveBeenCalledTimes(1)
+    expect(cancel).toHaveBeenCalledTimes(1)
+    expect(router.location.pathname).toEqual('/')
+  })
+
+  it('ignores new visits while others are pending', async () => {
+    const transport = createPendingTransport()
+    const router = new Router({
+      initialPage: createPage('/'),
+      base: '/',
+      transport,
+      fragments: {
+        default: {
+          concurrency: 'ignore-new',
+        },
+      },
+    })
+    const cancel = vi.fn()
+    const finish = vi.fn()
+
+    const pendingVisit = router.visit('/posts')
+    await wait(0)
+    const visit = await router.visit('/users', {
+      events: {
+        cancel,
+        finish,
+      },
+    })
+
+    expect(visit.cancelled).toBe(true)
+    expect(cancel).toHaveBeenCalledTimes(1)
+    expect(finish).toHaveBeenCalledTimes(1)
+    expect(transport.request).toHaveBeenCalledTimes(1)
+
+    transport.responses[0]()
+    await pendingVisit
+
+    expect(router.location.pathname).toEqual('/posts')
+  })
+
+  it('queues visits while others are pending', async () => {
+    const transport = createPendingTransport()
+    const router = new Router({
+      initialPage: createPage('/'),
+      base: '/',
+      transport,
+      fragments: {
+        default: {
+          concurrency: 'queue',
+        },
+      },
+    })
+
+    const firstVisit = router.visit('/posts')
+    await wait(0)
+    const secondVisit = router.visit('/users')
+    await wait(0)
+
+    expect(transport.request).toHaveBeenCalledTimes(1)
+
+    transport.responses[0]()
+    await firstVisit
+    await wait(0)
+
+    expect(router.location.pathname).toEqual('/posts')
+    expect(transport.request).toHaveBeenCalledTimes(2)
+
+    transport.responses[1]()
+    await secondVisit
+
+    expect(router.location.pathname).toEqual('/users')
+  })
+
+  it('runs queued visits strictly one after another', async () => {
+    const transport = createPendingTransport()
+    const router = new Router({
+      initialPage: createPage('/'),
+      base: '/',
+      transport,
+      fragments: {
+        default: {
+          concurrency: 'queue',
+        },
+      },
+    })
+
+    const visits = ['/posts', '/users', '/comments'].map((pathname) => {
+      return router.visit(pathname)
+    })
+    await wait(0)
+
+    expect(transport.request).toHaveBeenCalledTimes(1)
+
+    transport.responses[0]()
+    await visits[0]
+    await wait(0)
+
+    expect(transport.request).toHaveBeenCalledTimes(2)
+
+    transport.responses[1]()
+    await visits[1]
+    await wait(0)
+
+    expect(router.location.pathname).toEqual('/users')
+    expect(transport.request).toHaveBeenCalledTimes(3)
+
+    transport.responses[2]()
+    await visits[2]
+
+    expect(router.location.pathname).toEqual('/comments')
+  })
+
+  it('cancels previous visits by default', async () => {
+    const transport = createPendingTransport()
+    const router = new Router({
+      initialPage: createPage('/'),
+      base: '/',
+      transport,
+    })
+    const cancel = vi.fn()
+
+    const firstVisit = router.visit('/posts', {
+      events: {
+        cancel,
+      },
+    })
+    await wait(0)
+    const secondVisit = router.visit('/users')
+    await wait(0)
+
+    expect(cancel).toHaveBeenCalledTimes(1)
+    expect((await firstVisit).interrupted).toBe(true)
+
+    transport.responses[1]()
+    await secondVisit
+
+    expect(router.location.pathname).toEqual('/users')
+  })
+
+  it('lets guards reject visits', async () => {
+    const transport = createPageTransport()
+    const router = new Router({
+      initialPage: createPage('/'),
+      base: '/',
+      transport,
+    })
+    const guard = vi.fn(() => false)
+    const removeGuard = router.addGuard(guard)
+
+    await router.visit('/posts')
+
+    expect(guard).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'visit',
+        location: expect.objectContaining({
+          pathname: '/posts',
+        }),
+      }),
+    )
+    expect(transport.request).not.toHaveBeenCalled()
+    expect(router.location.pathname).toEqual('/')
+
+    removeGuard()
+    await router.visit('/posts')
+
+    expect(transport.request).toHaveBeenCalledTimes(1)
+    expect(router.location.pathname).toEqual('/posts')
+  })
+
+  it('restores the location when guards reject history navigations', async () => {
+    storePageStack(
+      [
+        createStoredPage('posts', '/posts'),
+        createStoredPage('post', '/posts/1'),
+      ],
+      1,
+    )
+    const go = vi
+      .spyOn(window.history, 'go')
+      .mockImplementation(() => undefined)
+    const router = new Router({
+      initialPage: createPage('/posts/1'),
+      base: '/',
+      transport: createPageTransport(),
+    })
+    const guard = vi.fn(async () => false)
+    router.addGuard(guard)
+
+    await router['handlePopstateEvent'](
+      new PopStateEvent('popstate', {
+        state: serialize(router.pages[0]),
+      }),
+    )
+
+    expect(guard).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'history',
+      }),
+    )
+    expect(go).toHaveBeenCalledWith(1)
+    expect(router.location.pathname).toEqual('/posts/1')
+
+    go.mockRestore()
+  })
+
+  it('prevents unloading while guards reject', () => {
+    const router = new Router({
+      initialPage: createPage('/'),
+      base: '/',
+      transport: createPageTransport(),
+    })
+    const guard = vi.fn(() => false)
+    router.addGuard(guard)
+    const event = new Event('beforeunload', {
+      cancelable: true,
+    }) as BeforeUnloadEvent
+
+    router['handleBeforeUnloadEvent'](event)
+
+    expect(guard).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'unload',
+      }),
+    )
+    expect(event.defaultPrevented).toBe(true)
+
+    router.removeGuard(guard)
+    const nextEvent = new Event('beforeunload', {
+      cancelable: true,
+    }) as BeforeUnloadEvent
+
+    router['handleBeforeUnloadEvent'](nextEvent)
+
+    expect(nextEvent.defaultPrevented).toBe(false)
+  })
+
+  it('prevents unloading while asynchronous guards are used', () => {
+    const router = new Router({
+      initialPage: createPage('/'),
+      base: '/',
+      transport: createPageTransport(),
+    })
+    router.addGuard(async () => true)
+    const event = new Event('beforeunload', {
+      cancelable: true,
+    }) as BeforeUnloadEvent
+
+    router['handleBeforeUnloadEvent'](event)
+
+    expect(event.defaultPrevented).toBe(true)
+  })
+
+  describe('offline queue', () => {
+    const entries: OfflineVisit[] = []
+    let spies: SpyInstance[] = []
+
+    // IndexedDB is not available in jsdom so the queue is kept in memory
+    beforeEach(() => {
+      entries.length = 0
+      spies = [
+        vi.spyOn(OfflineQueue, 'isSupported').mockReturnValue(true),
+        vi.spyOn(OfflineQueue.prototype, 'all').mockImplementation(async () => {
+          return [...entries]
+        }),
+        vi
+          .spyOn(OfflineQueue.prototype, 'add')
+          .mockImplementation(async (entry) => {
+            const offlineVisit = {
+              ...entry,
+              id: entries.length + 1,
+            }
+            entries.push(offlineVisit)
+
+            return offlineVisit
+          }),
+        vi
+          .spyOn(OfflineQueue.prototype, 'delete')
+          .mockImplementation(async (id) => {
+            entries.splice(
+              entries.findIndex((entry) => entry.id === id),
+              1,
+            )
+          }),
+      ]
+    })
+
+    afterEach(() => {
+      spies.forEach((spy) => spy.mockRestore())
+      Reflect.deleteProperty(navigator, 'onLine')
+    })
+
+    const queueEntry = () => {
+      entries.push({
+        id: entries.length + 1,
+        timestamp: 0,
+        href: `${window.location.origin}/posts`,
+        method: RouteMethod.DELETE,
+        data: {
+          type: 'object',
+          value: {},
+        },
+        headers: {},
+        properties: [],
+        errorBag: null,
+        fragmentName: undefined,
+      })
+    }
+
+    it('queues mutations while offline and replays them once online', async () => {
+      Object.defineProperty(navigator, 'onLine', {
+        configurable: true,
+        value: false,
+      })
+      const transport = createPageTransport()
+      const queued = vi.fn()
+      const replayed = vi.fn()
+      const router = new Router({
+        initialPage: createPage('/posts'),
+        base: '/',
+        transport,
+        offline: true,
+        events: {
+          replayed,
+        },
+      })
+
+      await router.visit('/posts', {
+        method: RouteMethod.POST,
+        data: {
+          title: 'Offline',
+        },
+        events: {
+          queued,
+        },
+      })
+
+      expect(transport.request).not.toHaveBeenCalled()
+      expect(queued).toHaveBeenCalledTimes(1)
+      expect(entries).toHaveLength(1)
+
+      Reflect.deleteProperty(navigator, 'onLine')
+      window.dispatchEvent(new Event('online'))
+      await wait(10)
+
+      expect(transport.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: RouteMethod.POST,
+          url: `${window.location.origin}/posts`,
+          data: {
+            title: 'Offline',
+          },
+        }),
+      )
+      expect(replayed).toHaveBeenCalledTimes(1)
+      expect(entries).toHaveLength(0)
+    })
+
+    it('replays queued visits on startup', async () => {
+      queueEntry()
+      const transport = createPageTransport()
+      const replayed = vi.fn()
+      new Router({
+        initialPage: createPage('/'),
+        base: '/',
+        transport,
+        offline: true,
+        events: {
+          replayed,
+        },
+      })
+      await wait(10)
+
+      expect(transport.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: RouteMethod.DELETE,
+          url: `${window.location.origin}/posts`,
+        }),
+      )
+      expect(replayed).toHaveBeenCalledTimes(1)
+      expect(entries).toHaveLength(0)
+    })
+
+    it('reports replays the server answered with an error status', async () => {
+      queueEntry()
+      queueEntry()
+      const transport = {
+        request: vi.fn(async (request: TransportRequest) => {
+          throw new TransportError(
+            'Request failed with status code 500',
+            request,
+            {
+              response: {
+                status: 500,
+                headers: {},
+                data: '',
+                url: request.url,
+              },
+            },
+          )
+        }),
+      }
+      const replayed = vi.fn()
+      const replayFailed = vi.fn()
+      new Router({
+        initialPage: createPage('/'),
+        base: '/',
+        transport,
+        offline: true,
+        events: {
+          replayed,
+          replayFailed,
+        },
+      })
+      await wait(10)
+
+      expect(replayed).not.toHaveBeenCalled()
+      expect(replayFailed).toHaveBeenCalledTimes(2)
+      expect(replayFailed.mock.calls[0][0].detail.response.status).toEqual(500)
+      expect(entries).toHaveLength(0)
+    })
+
+    it('reports replays the server answered with validation errors', async () => {
+      queueEntry()
+      const transport = {
+        request: vi.fn(async (request: TransportRequest) => {
+          const page = createPage('/posts')
+
+          return {
+            status: 200,
+            headers: {
+              'x-navigare': 'true',
+            },
+            data: {
+              ...page,
+              properties: {
+                ...page.properties,
+                __errors: {
+                  title: ['The title is required.'],
+                },
+              },
+            },
+            url: request.url,
+          }
+        }),
+      }
+      const replayed = vi.fn()
+      const replayFailed = vi.fn()
+      const router = new Router({
+        initialPage: createPage('/'),
+        base: '/',
+        transport,
+        offline: true,
+        events: {
+          replayed,
+          replayFailed,
+        },
+      })
+      await wait(10)
+
+      expect(replayed).not.toHaveBeenCalled()
+      expect(replayFailed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          detail: expect.objectContaining({
+            errors: {
+              title: ['The title is required.'],
+            },
+          }),
+        }),
+      )
+      expect(router.location.pathname).toEqual('/')
+      expect(entries).toHaveLength(0)
+    })
+  })
+})
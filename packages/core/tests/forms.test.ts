@@ -0,0 +1,82 @@
+import { getFormInputId, getFormInputName, Router, submitForm } from '../src'
+import { FormEventNames } from '../src/types'
+import { describe, expect, it, vi } from 'vitest'
+
+const createSubmission = (
+  target: (values: { title: string }) => unknown,
+  emit = vi.fn<[FormEventNames], Promise<boolean>>(async () => true),
+) => {
+  return {
+    values: {
+      title: 'Draft',
+    },
+    errors: {},
+    target,
+    emit,
+    onStart: vi.fn(),
+    onSuccess: vi.fn(),
+    onError: vi.fn(),
+    onFinish: vi.fn(),
+  }
+}
+
+describe('forms', () => {
+  it('creates input names and ids from paths', () => {
+    expect(getFormInputName(['author', 'name'])).toEqual('author.name')
+    expect(getFormInputName('title')).toEqual('title')
+    expect(getFormInputId(['tags', 0, 'name'])).toEqual('tags.0.name')
+    expect(getFormInputId('1st title')).toEqual('sttitle')
+  })
+
+  it('submits via callback', async () => {
+    const router = {} as Router<unknown>
+    const target = vi.fn(async () => undefined)
+    const submission = createSubmission(target)
+
+    await submitForm(router, submission)
+
+    expect(target).toHaveBeenCalledWith({
+      title: 'Draft',
+    })
+    expect(submission.onStart).toHaveBeenCalledTimes(1)
+    expect(submission.onSuccess).toHaveBeenCalledTimes(1)
+    expect(submission.onFinish).toHaveBeenCalledTimes(1)
+    expect(submission.emit.mock.calls.map(([name]) => name)).toEqual([
+      'before',
+      'validate',
+      'success',
+      'finish',
+    ])
+  })
+
+  it('reports errors thrown by callbacks', async () => {
+    const router = {} as Router<unknown>
+    const submission = createSubmission(async () => {
+      throw {
+        title: 'The title is required.',
+      }
+    })
+
+    await submitForm(router, submission)
+
+    expect(submission.onError).toHaveBeenCalledWith({
+      title: 'The title is required.',
+    })
+    expect(submission.onSuccess).not.toHaveBeenCalled()
+    expect(submission.onFinish).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops prevented submissions', async () => {
+    const router = {} as Router<unknown>
+    const target = vi.fn()
+    const submission = createSubmission(
+      target,
+      vi.fn(async (name: FormEventNames) => name !== 'validate'),
+    )
+
+    await submitForm(router, submission)
+
+    expect(target).not.toHaveBeenCalled()
+    expect(submission.onFinish).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,53 @@
+import { mergeProperties, mergeProperty } from '../src/utilities'
+import { describe, expect, it } from 'vitest'
+
+describe('mergeProperty', () => {
+  it('appends and prepends lists and paginators', () => {
+    expect(mergeProperty([1, 2], [3], 'append')).toEqual([1, 2, 3])
+    expect(mergeProperty([2, 3], [1], 'prepend')).toEqual([1, 2, 3])
+    expect(
+      mergeProperty(
+        { data: [1, 2], current_page: 1 },
+        { data: [3], current_page: 2 },
+        'append',
+      ),
+    ).toEqual({ data: [1, 2, 3], current_page: 2 })
+  })
+
+  it('merges objects deeply but replaces lists', () => {
+    expect(
+      mergeProperty(
+        { filters: { status: 'open' }, tags: [1] },
+        { filters: { sort: 'date' }, tags: [2] },
+        'deep',
+      ),
+    ).toEqual({ filters: { status: 'open', sort: 'date' }, tags: [2] })
+  })
+})
+
+describe('mergeProperties', () => {
+  it('prefers strategies declared by the server', () => {
+    expect(
+      mergeProperties(
+        { posts: [1], comments: [1], users: [1] },
+        {
+          posts: [2],
+          comments: [2],
+          users: [2],
+          __merge: { posts: 'prepend' },
+        },
+        { posts: 'append', comments: 'append' },
+      ),
+    ).toMatchObject({
+      posts: [2, 1],
+      comments: [1, 2],
+      users: [2],
+    })
+  })
+
+  it('replaces properties without strategies', () => {
+    expect(mergeProperties({ posts: [1] }, { posts: [2] })).toEqual({
+      posts: [2],
+    })
+  })
+})
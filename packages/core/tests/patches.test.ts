@@ -0,0 +1,63 @@
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  parsePropertyHashes,
+} from '../src/utilities'
+import { describe, expect, it } from 'vitest'
+
+describe('applyJsonPatch', () => {
+  it('applies operations without mutating the document', () => {
+    const document = {
+      users: [{ name: 'Ada' }, { name: 'Grace' }],
+      'a/b': 1,
+    }
+
+    const result = applyJsonPatch(document, [
+      { op: 'test', path: '/users/0/name', value: 'Ada' },
+      { op: 'replace', path: '/users/1/name', value: 'Linus' },
+      { op: 'add', path: '/users/-', value: { name: 'Margaret' } },
+      { op: 'copy', from: '/users/0', path: '/owner' },
+      { op: 'move', from: '/a~1b', path: '/count' },
+      { op: 'remove', path: '/users/0' },
+    ])
+
+    expect(result).toEqual({
+      users: [{ name: 'Linus' }, { name: 'Margaret' }],
+      owner: { name: 'Ada' },
+      count: 1,
+    })
+    expect(document.users[1].name).toEqual('Grace')
+  })
+
+  it('rejects failed tests and unknown paths', () => {
+    expect(() => {
+      applyJsonPatch({ count: 1 }, [{ op: 'test', path: '/count', value: 2 }])
+    }).toThrowError()
+    expect(() => {
+      applyJsonPatch({ users: [] }, [{ op: 'remove', path: '/users/0' }])
+    }).toThrowError()
+  })
+})
+
+describe('applyMergePatch', () => {
+  it('merges objects and removes null values', () => {
+    expect(
+      applyMergePatch(
+        { user: { name: 'Ada', email: 'ada@example.com' }, tags: [1, 2] },
+        { user: { email: null }, tags: [3] },
+      ),
+    ).toEqual({
+      user: { name: 'Ada' },
+      tags: [3],
+    })
+  })
+})
+
+describe('parsePropertyHashes', () => {
+  it('keeps padding of base64 hashes', () => {
+    expect(parsePropertyHashes('users=YWJj, filters=YQ==')).toEqual({
+      users: 'YWJj',
+      filters: 'YQ==',
+    })
+  })
+})
@@ -0,0 +1,48 @@
+import { createProgressTracker } from '../src/utilities'
+import { describe, expect, it } from 'vitest'
+
+describe('createProgressTracker', () => {
+  it('computes rate and estimated time from the first event', () => {
+    let time = 1000
+    const track = createProgressTracker(() => time)
+
+    expect(track({ loaded: 0, total: 1000, bytes: 0 })).toMatchObject({
+      percentage: 0,
+      rate: undefined,
+      estimated: undefined,
+    })
+
+    time = 1500
+
+    expect(track({ loaded: 250, total: 1000, bytes: 250 })).toMatchObject({
+      percentage: 25,
+      rate: 500,
+      estimated: 1.5,
+    })
+  })
+
+  it('prefers values reported by axios', () => {
+    const track = createProgressTracker(() => 0)
+
+    expect(
+      track({ loaded: 10, total: 100, bytes: 10, rate: 20, estimated: 4 }),
+    ).toMatchObject({
+      rate: 20,
+      estimated: 4,
+    })
+  })
+
+  it('leaves the estimate empty without a total', () => {
+    let time = 0
+    const track = createProgressTracker(() => time)
+
+    track({ loaded: 0, bytes: 0 })
+    time = 1000
+
+    expect(track({ loaded: 100, bytes: 100 })).toMatchObject({
+      percentage: undefined,
+      rate: 100,
+      estimated: undefined,
+    })
+  })
+})
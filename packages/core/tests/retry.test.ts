@@ -0,0 +1,59 @@
+import { RouteMethod } from '../src/types'
+import {
+  getRetryDelay,
+  isRetryable,
+  resolveRetryOptions,
+} from '../src/utilities'
+import { describe, expect, it } from 'vitest'
+
+describe('retry', () => {
+  it('is disabled by default', () => {
+    expect(resolveRetryOptions()).toEqual(null)
+    expect(resolveRetryOptions(undefined, false)).toEqual(null)
+    expect(resolveRetryOptions({ attempts: 1 }, false)).toEqual(null)
+  })
+
+  it('merges options of router and visit', () => {
+    expect(resolveRetryOptions(true)).toMatchObject({
+      attempts: 3,
+      statuses: [502, 503, 504],
+    })
+
+    expect(
+      resolveRetryOptions({ attempts: 5, delay: 100 }, { delay: 200 }),
+    ).toMatchObject({
+      attempts: 5,
+      delay: 200,
+    })
+
+    expect(resolveRetryOptions({ attempts: 5 }, true)).toMatchObject({
+      attempts: 5,
+    })
+  })
+
+  it('retries idempotent requests only', () => {
+    const options = resolveRetryOptions(true)!
+
+    expect(isRetryable(RouteMethod.GET, undefined, options)).toEqual(true)
+    expect(isRetryable(RouteMethod.GET, 503, options)).toEqual(true)
+    expect(isRetryable(RouteMethod.GET, 500, options)).toEqual(false)
+    expect(isRetryable(RouteMethod.POST, 503, options)).toEqual(false)
+    expect(
+      isRetryable(RouteMethod.POST, 503, { ...options, methods: ['POST'] }),
+    ).toEqual(true)
+  })
+
+  it('backs off exponentially', () => {
+    const options = resolveRetryOptions({
+      delay: 100,
+      maxDelay: 1000,
+      jitter: 0.5,
+    })!
+
+    expect(getRetryDelay(1, options, () => 0)).toEqual(100)
+    expect(getRetryDelay(2, options, () => 0)).toEqual(200)
+    expect(getRetryDelay(3, options, () => 0)).toEqual(400)
+    expect(getRetryDelay(10, options, () => 0)).toEqual(1000)
+    expect(getRetryDelay(2, options, () => 1)).toEqual(100)
+  })
+})
@@ -108,6 +108,7 @@ export default async function () {
               { text: 'Modals', link: '/guide/basics/modals' },
               { text: 'Title & Meta', link: '/guide/basics/head' },
               { text: 'Links', link: '/guide/basics/links' },
+              { text: 'Accessibility', link: '/guide/basics/accessibility' },
               { text: 'Manual visits', link: '/guide/basics/manual-visits' },
               { text: 'Redirects', link: '/guide/basics/redirects' },
               { text: 'Forms', link: '/guide/basics/forms' },
@@ -118,6 +119,7 @@ export default async function () {
                 link: '/guide/basics/shared-properties',
               },
               { text: 'Configuration', link: '/guide/basics/configuration' },
+              { text: 'Testing', link: '/guide/basics/testing' },
               {
                 text: 'Server Side Rendering',
                 link: '/guide/basics/server-side-rendering',
@@ -3,9 +3,11 @@
 namespace Navigare;
 
 use Closure;
+use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
 use Illuminate\Support\Arr;
 use Illuminate\Support\Facades\Redirect;
+use Illuminate\Support\Str;
 use Navigare\Response as NavigareResponse;
 use Symfony\Component\HttpFoundation\Response;
 
@@ -140,6 +142,15 @@ class Middleware
       $response = $this->onEmptyResponse($request, $response);
     }
 
+    // Let the client patch the page it already knows instead of sending it again
+    if (
+      $response instanceof JsonResponse &&
+      $response->isOk() &&
+      $response->headers->get('X-Navigare')
+    ) {
+      $response = $this->onPageResponse($request, $response);
+    }
+
     // Redirect via 303 code for requests with potential side effects
     if (
       $response->getStatusCode() === 302 &&
@@ -182,7 +193,255 @@ class Middleware
       $request->session()->reflash();
     }
 
-    return Navigare::location($request->fullUrl());
+    $response = Navigare::location($request->fullUrl());
+
+    // Tell the client about the new version so it can decide how to update
+    $response->headers->set('X-Navigare-Version', Navigare::getVersion());
+
+    return $response;
+  }
+
+  /**
+   * Adds the hashes of the properties to full page responses and answers
+   * requests for a page the client already knows with a JSON Patch against it.
+   *
+   * @param  Request  $request
+   * @param  JsonResponse  $response
+   * @return Response
+   */
+  public function onPageResponse(
+    Request $request,
+    JsonResponse $response
+  ): Response {
+    // Partial reloads only contain the requested properties
+    if ($request->header('X-Navigare-Properties')) {
+      return $response;
+    }
+
+    $page = $response->getData();
+    $hashes = $this->hashPage($page);
+
+    $response->headers->set(
+      'X-Navigare-Property-Hashes',
+      collect($hashes)
+        ->map(function ($hash, $key) {
+          return "{$key}={$hash}";
+        })
+        ->join(',')
+    );
+
+    $knownHashes = $this->parsePropertyHashes(
+      $request->header('X-Navigare-Property-Hashes', '')
+    );
+    if ($request->method() !== 'GET' || empty($knownHashes)) {
+      return $response;
+    }
+
+    $response->setData($this->createPatch($page, $hashes, $knownHashes));
+    $response->headers->set('X-Navigare-Patch', 'json-patch');
+
+    return $response;
+  }
+
+  /**
+   * Hashes the properties of the page and its fragments as well as the
+   * fragments themselves.
+   *
+   * @param  object  $page
+   * @return array
+   */
+  protected function hashPage(object $page): array
+  {
+    $hashes = [];
+
+    foreach ((array) $page->properties as $name => $value) {
+      $hashes["properties.{$name}"] = $this->hash($value);
+    }
+
+    foreach ((array) $page->fragments as $name => $stack) {
+      $fragment = $stack[0] ?? null;
+
+      if (!$fragment) {
+        $hashes["fragments.{$name}"] = $this->hash(null);
+
+        continue;
+      }
+
+      $fragmentWithoutProperties = clone $fragment;
+      unset($fragmentWithoutProperties->properties);
+
+      $hashes["fragments.{$name}"] = $this->hash($fragmentWithoutProperties);
+
+      foreach ((array) $fragment->properties as $property => $value) {
+        $hashes["fragments.{$name}.{$property}"] = $this->hash($value);
+      }
+    }
+
+    return $hashes;
+  }
+
+  /**
+   * Creates the JSON Patch operations which turn the page the client knows
+   * into the current one.
+   *
+   * @param  object  $page
+   * @param  array  $hashes
+   * @param  array  $knownHashes
+   * @return array
+   */
+  protected function createPatch(
+    object $page,
+    array $hashes,
+    array $knownHashes
+  ): array {
+    $operations = [];
+    $hasChanged = function (string $key) use ($hashes, $knownHashes) {
+      return ($knownHashes[$key] ?? null) !== ($hashes[$key] ?? null);
+    };
+
+    // Other values of the page are small and therefore always sent
+    foreach ((array) $page as $key => $value) {
+      if (in_array($key, ['properties', 'fragments'])) {
+        continue;
+      }
+
+      $operations[] = $this->createPatchOperation('add', [$key], $value);
+    }
+
+    foreach ((array) $page->properties as $name => $value) {
+      if ($hasChanged("properties.{$name}")) {
+        $operations[] = $this->createPatchOperation(
+          'add',
+          ['properties', $name],
+          $value
+        );
+      }
+    }
+
+    foreach (array_keys($knownHashes) as $key) {
+      if (!isset($hashes[$key]) && Str::startsWith($key, 'properties.')) {
+        $operations[] = $this->createPatchOperation('remove', [
+          'properties',
+          Str::after($key, 'properties.'),
+        ]);
+      }
+    }
+
+    foreach ((array) $page->fragments as $name => $stack) {
+      // Changed fragments are replaced completely
+      if ($hasChanged("fragments.{$name}")) {
+        $operations[] = $this->createPatchOperation(
+          'add',
+          ['fragments', $name],
+          $stack
+        );
+
+        continue;
+      }
+
+      if (!$stack) {
+        continue;
+      }
+
+      foreach ((array) $stack[0]->properties as $property => $value) {
+        if ($hasChanged("fragments.{$name}.{$property}")) {
+          $operations[] = $this->createPatchOperation(
+            'add',
+            ['fragments', $name, 0, 'properties', $property],
+            $value
+          );
+        }
+      }
+
+      foreach (array_keys($knownHashes) as $key) {
+        if (
+          !isset($hashes[$key]) &&
+          Str::startsWith($key, "fragments.{$name}.")
+        ) {
+          $operations[] = $this->createPatchOperation('remove', [
+            'fragments',
+            $name,
+            0,
+            'properties',
+            Str::after($key, "fragments.{$name}."),
+          ]);
+        }
+      }
+    }
+
+    // Fragment names never contain dots, unlike the keys of their properties
+    foreach (array_keys($knownHashes) as $key) {
+      $name = Str::after($key, 'fragments.');
+
+      if (
+        !isset($hashes[$key]) &&
+        Str::startsWith($key, 'fragments.') &&
+        !Str::contains($name, '.')
+      ) {
+        $operations[] = $this->createPatchOperation('remove', [
+          'fragments',
+          $name,
+        ]);
+      }
+    }
+
+    return $operations;
+  }
+
+  /**
+   * Creates a single JSON Patch operation.
+   *
+   * @param  string  $operation
+   * @param  array  $path
+   * @param  mixed  $value
+   * @return array
+   */
+  protected function createPatchOperation(
+    string $operation,
+    array $path,
+    $value = null
+  ): array {
+    $pointer = collect($path)
+      ->map(function ($token) {
+        return '/' . str_replace(['~', '/'], ['~0', '~1'], (string) $token);
+      })
+      ->join('');
+
+    return $operation === 'remove'
+      ? ['op' => $operation, 'path' => $pointer]
+      : ['op' => $operation, 'path' => $pointer, 'value' => $value];
+  }
+
+  /**
+   * Parses the hashes the client sent along with its request.
+   *
+   * @param  string  $header
+   * @return array
+   */
+  protected function parsePropertyHashes(string $header): array
+  {
+    return collect(explode(',', $header))
+      ->map(function ($entry) {
+        return explode('=', trim($entry), 2);
+      })
+      ->filter(function ($entry) {
+        return count($entry) === 2 && $entry[0] !== '' && $entry[1] !== '';
+      })
+      ->mapWithKeys(function ($entry) {
+        return [$entry[0] => $entry[1]];
+      })
+      ->all();
+  }
+
+  /**
+   * Hashes a single value of the page.
+   *
+   * @param  mixed  $value
+   * @return string
+   */
+  protected function hash($value): string
+  {
+    return substr(md5(json_encode($value)), 0, 12);
   }
 
   /**
@@ -5,6 +5,7 @@ namespace Navigare;
 use Closure;
 use Illuminate\Contracts\Support\Arrayable;
 use Illuminate\Support\Facades\Facade;
+use Navigare\View\CachedProperty;
 use Navigare\View\DeferredProperty;
 use Navigare\View\LazyProperty;
 
@@ -18,7 +19,8 @@ use Navigare\View\LazyProperty;
  * @method static string getVersion($version)
  * @method static self share(Closure|array $callback)
  * @method static LazyProperty lazy(Closure $callback)
- * @method static DeferredProperty deferred(Closure $callback)
+ * @method static DeferredProperty deferred(Closure $callback, ?string $group = null, int $priority = 0, bool $lazy = false)
+ * @method static CachedProperty cached(Closure $callback, string $key, int $ttl = 3600)
  * @method static Response render($component, array|Arrayable $properties = [])
  * @method static \Symfony\Component\HttpFoundation\Response location(string $url)
  * @method static \Illuminate\Http\RedirectResponse back(array|Arrayable|null $flash = null)
@@ -20,6 +20,7 @@ use Illuminate\Support\Facades\Route;
 use Illuminate\Support\Str;
 use Illuminate\Support\Traits\Macroable;
 use Navigare\Router\RawRoute;
+use Navigare\View\CachedProperty;
 use Navigare\View\DeferredProperty;
 use Navigare\View\LazyProperty;
 use Navigare\View\Location;
@@ -511,6 +512,12 @@ class Response implements Responsable
         $selectedProperties,
         $fragment
       ) {
+        // Merge strategies and cache instructions describe the other
+        // properties of partial reloads
+        if (in_array($propertyName, ['__merge', '__cache'])) {
+          return true;
+        }
+
         return $selectedProperties->some(
           fn($selectedProperty) => $selectedProperty->matches(
             $propertyName,
@@ -544,9 +551,17 @@ class Response implements Responsable
     Collection $properties,
     ?Collection $requestedProperties = null
   ): Collection {
-    return $properties->map(function ($value) use (
+    // Properties cached by the client are omitted
+    $cachedKeys = collect(
+      explode(',', $request->header('X-Navigare-Cached', ''))
+    )
+      ->map(fn($key) => trim($key))
+      ->filter();
+
+    $resolvedProperties = $properties->map(function ($value) use (
       $request,
-      $requestedProperties
+      $requestedProperties,
+      $cachedKeys
     ) {
       $resolvedValue = null;
 
@@ -561,9 +576,13 @@ class Response implements Responsable
         if ($requestedProperties?->count() > 0) {
           $value = App::call($value);
         } else {
-          $resolvedValue = [
-            '__deferred' => true,
-          ];
+          $resolvedValue = $value->toPlaceholder();
+        }
+      } elseif ($value instanceof CachedProperty) {
+        if ($cachedKeys->contains($value->getKey())) {
+          $resolvedValue = $value->toPlaceholder();
+        } else {
+          $value = App::call($value);
         }
       }
 
@@ -604,5 +623,24 @@ class Response implements Responsable
 
       return $resolvedValue;
     });
+
+    // Tell the client which properties it may cache
+    $cacheInstructions = $properties
+      ->filter(
+        fn($value) => $value instanceof CachedProperty &&
+          !$cachedKeys->contains($value->getKey())
+      )
+      ->map(
+        fn($value) => [
+          'key' => $value->getKey(),
+          'ttl' => $value->getTtl(),
+        ]
+      );
+
+    if ($cacheInstructions->isNotEmpty()) {
+      $resolvedProperties->put('__cache', $cacheInstructions->all());
+    }
+
+    return $resolvedProperties;
   }
 }
@@ -10,6 +10,7 @@ use Illuminate\Support\Facades\Request;
 use Illuminate\Support\Facades\Response as BaseResponse;
 use Illuminate\Support\Str;
 use Illuminate\Support\Traits\Macroable;
+use Navigare\View\CachedProperty;
 use Navigare\View\DeferredProperty;
 use Navigare\View\LazyProperty;
 
@@ -179,11 +180,34 @@ class ResponseFactory
    * Create instance of DeferredProperty.
    *
    * @param  Closure  $callback
+   * @param  string|null  $group
+   * @param  int  $priority
+   * @param  bool  $lazy
    * @return DeferredProperty
    */
-  public function deferred(Closure $callback): DeferredProperty
-  {
-    return new DeferredProperty($callback);
+  public function deferred(
+    Closure $callback,
+    ?string $group = null,
+    int $priority = 0,
+    bool $lazy = false
+  ): DeferredProperty {
+    return new DeferredProperty($callback, $group, $priority, $lazy);
+  }
+
+  /**
+   * Create instance of CachedProperty.
+   *
+   * @param  Closure  $callback
+   * @param  string  $key
+   * @param  int  $ttl
+   * @return CachedProperty
+   */
+  public function cached(
+    Closure $callback,
+    string $key,
+    int $ttl = 3600
+  ): CachedProperty {
+    return new CachedProperty($callback, $key, $ttl);
   }
 
   /**
@@ -0,0 +1,45 @@
+<?php
+
+namespace Navigare\View;
+
+use Illuminate\Support\Facades\App;
+
+class CachedProperty
+{
+  protected $callback;
+
+  public function __construct(
+    callable $callback,
+    protected string $key,
+    protected int $ttl = 3600
+  ) {
+    $this->callback = $callback;
+  }
+
+  public function __invoke()
+  {
+    return App::call($this->callback);
+  }
+
+  public function getKey(): string
+  {
+    return $this->key;
+  }
+
+  public function getTtl(): int
+  {
+    return $this->ttl;
+  }
+
+  /**
+   * Resolve the placeholder that is sent in case the client cached the value.
+   *
+   * @return array
+   */
+  public function toPlaceholder(): array
+  {
+    return [
+      '__cached' => $this->key,
+    ];
+  }
+}
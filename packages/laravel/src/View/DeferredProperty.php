@@ -8,8 +8,12 @@ class DeferredProperty
 {
   protected $callback;
 
-  public function __construct(callable $callback)
-  {
+  public function __construct(
+    callable $callback,
+    protected ?string $group = null,
+    protected int $priority = 0,
+    protected bool $lazy = false
+  ) {
     $this->callback = $callback;
   }
 
@@ -17,4 +21,22 @@ class DeferredProperty
   {
     return App::call($this->callback);
   }
+
+  /**
+   * Resolve the placeholder that is sent instead of the actual value.
+   *
+   * @return array
+   */
+  public function toPlaceholder(): array
+  {
+    return array_filter(
+      [
+        '__deferred' => true,
+        '__group' => $this->group,
+        '__priority' => $this->priority ?: null,
+        '__lazy' => $this->lazy ?: null,
+      ],
+      fn($value) => $value !== null
+    );
+  }
 }
@@ -127,6 +127,33 @@ class MiddlewareTest extends TestCase
     self::assertEmpty($response->getContent());
   }
 
+  public function test_it_will_answer_requests_for_known_pages_with_a_patch(): void
+  {
+    $this->prepareMockEndpoint();
+
+    $response = $this->get('/', [
+      'X-Navigare' => 'true',
+    ]);
+
+    $response->assertSuccessful();
+    $response->assertHeaderMissing('X-Navigare-Patch');
+    $hashes = $response->headers->get('X-Navigare-Property-Hashes');
+    self::assertStringContainsString('properties.user=', $hashes);
+
+    $response = $this->get('/', [
+      'X-Navigare' => 'true',
+      'X-Navigare-Property-Hashes' => $hashes,
+    ]);
+
+    $response->assertSuccessful();
+    $response->assertHeader('X-Navigare-Patch', 'json-patch');
+    $response->assertHeader('X-Navigare-Property-Hashes', $hashes);
+    self::assertNotContains(
+      '/properties/user',
+      collect($response->json())->pluck('path')
+    );
+  }
+
   public function test_validation_errors_are_registered_as_of_default(): void
   {
     Route::middleware([StartSession::class, ExampleMiddleware::class])->get(
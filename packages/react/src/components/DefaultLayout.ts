@@ -0,0 +1,21 @@
+import Fragments from './Fragments'
+import { createElement, Fragment, ReactElement } from 'react'
+
+export type DefaultLayoutProps = {
+  layout: string | null
+}
+
+export default function DefaultLayout(
+  _props: DefaultLayoutProps,
+): ReactElement {
+  return createElement(
+    Fragment,
+    null,
+    createElement(Fragments, {
+      name: 'default',
+    }),
+    createElement(Fragments, {
+      name: 'modal',
+    }),
+  )
+}
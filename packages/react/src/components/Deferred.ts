@@ -0,0 +1,16 @@
+import { DeferredProperty, isDeferred } from '@navigare/core'
+import { createElement, Fragment, ReactElement, ReactNode } from 'react'
+
+export type DeferredProps = {
+  value: DeferredProperty
+  fallback?: ReactNode
+  children?: ReactNode
+}
+
+export default function Deferred({
+  value,
+  fallback = null,
+  children = null,
+}: DeferredProps): ReactElement {
+  return createElement(Fragment, null, isDeferred(value) ? fallback : children)
+}
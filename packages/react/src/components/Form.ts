@@ -0,0 +1,83 @@
+import FormContext, { FormContextValue } from '../contexts/FormContext'
+import useRouter from '../hooks/useRouter'
+import { FormControl } from '../types'
+import { RawRouteMethod, throwError } from '@navigare/core'
+import {
+  ComponentPropsWithoutRef,
+  createElement,
+  FormEvent,
+  ReactElement,
+  useMemo,
+  useRef,
+} from 'react'
+
+export type FormProps = {
+  form: FormControl<any>
+  method?: RawRouteMethod
+} & Omit<ComponentPropsWithoutRef<'form'>, 'method'>
+
+export default function Form({
+  form,
+  method,
+  children,
+  ...attributes
+}: FormProps): ReactElement {
+  const router = useRouter()
+  const element = useRef<HTMLFormElement>(null)
+
+  if (!form) {
+    throwError(
+      'You must pass a form (that was created via `useForm`) to the Form component.',
+    )
+  }
+
+  const target = useMemo(() => {
+    if (!form.routable) {
+      return null
+    }
+
+    return router.instance.resolveRoutable(
+      form.routable,
+      {},
+      {
+        method,
+      },
+    )
+  }, [router.instance, form.routable, method])
+
+  // Provide context
+  const context = useMemo<FormContextValue>(() => {
+    return {
+      form,
+    }
+  }, [form])
+
+  return createElement(
+    FormContext.Provider,
+    {
+      value: context,
+    },
+    createElement(
+      'form',
+      {
+        ref: element,
+        method: target?.method ?? 'post',
+        action: target?.location.href ?? '#',
+        onReset: (event: FormEvent<HTMLFormElement>) => {
+          event.preventDefault()
+
+          form.reset()
+        },
+        onSubmit: (event: FormEvent<HTMLFormElement>) => {
+          event.preventDefault()
+
+          form.submit({
+            trigger: element.current?.querySelector('input[type=submit]:focus'),
+          })
+        },
+        ...attributes,
+      },
+      children,
+    ),
+  )
+}
@@ -0,0 +1,167 @@
+import FragmentContext, {
+  FragmentContextValue,
+} from '../contexts/FragmentContext'
+import { useRouterContext } from '../contexts/RouterContext'
+import { getFragmentKey } from '../utilities'
+import { Fragment as NavigareFragment } from '@navigare/core'
+import {
+  Component,
+  createElement,
+  ErrorInfo,
+  ReactElement,
+  ReactNode,
+  useEffect,
+  useMemo,
+  useReducer,
+} from 'react'
+
+export type FragmentProps = {
+  name: string
+  fragment: NavigareFragment
+  children?: (
+    options: FragmentContextValue & {
+      properties: Record<string, any>
+      component: ReactElement
+    },
+  ) => ReactNode
+}
+
+class FragmentErrorBoundary extends Component<
+  {
+    children: ReactNode
+    onError: (error: Error) => void
+  },
+  {
+    error: Error | null
+  }
+> {
+  public state = {
+    error: null as Error | null,
+  }
+
+  public static getDerivedStateFromError(error: Error) {
+    return {
+      error,
+    }
+  }
+
+  public componentDidCatch(error: Error, _info: ErrorInfo) {
+    // Inform router about error
+    this.props.onError(error)
+  }
+
+  public render() {
+    const { error } = this.state
+
+    if (!error) {
+      return this.props.children
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+      return null
+    }
+
+    return createElement(
+      'div',
+      {
+        style: {
+          background: '#E83B46',
+          color: '#FFFFFF',
+          padding: '1rem',
+        },
+      },
+      createElement(
+        'div',
+        {
+          style: {
+            fontWeight: 'bold',
+            fontSize: '1.5rem',
+          },
+        },
+        error.message,
+      ),
+      createElement(
+        'pre',
+        {
+          style: {
+            fontFamily: 'Consolas, Menlo, monospace',
+          },
+        },
+        error.stack,
+      ),
+    )
+  }
+}
+
+export default function Fragment({
+  name,
+  fragment,
+  children,
+}: FragmentProps): ReactElement {
+  const { router } = useRouterContext()
+  const key = getFragmentKey(fragment)
+  const context = useMemo<FragmentContextValue>(() => {
+    return {
+      name,
+      fragment,
+      page: fragment.page!,
+      key,
+    }
+  }, [name, fragment, key])
+  const properties = {
+    ...fragment.page?.properties,
+    ...fragment.properties,
+  }
+  const componentModule = router.getComponentModule(fragment.component)
+
+  // Render again once the component module was loaded
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0)
+  useEffect(() => {
+    const module = router.getComponentModule(fragment.component)
+
+    if (!(module instanceof Promise)) {
+      return
+    }
+
+    let active = true
+    module.then(() => {
+      if (active) {
+        forceUpdate()
+      }
+    })
+
+    return () => {
+      active = false
+    }
+  }, [router, fragment.component.id])
+
+  // Render component
+  const renderedComponentModule =
+    componentModule instanceof Promise
+      ? null
+      : createElement(componentModule, {
+          key,
+          ...properties,
+        })
+
+  return createElement(
+    FragmentContext.Provider,
+    {
+      value: context,
+    },
+    createElement(FragmentErrorBoundary, {
+      key,
+      onError: (error) => {
+        router.reportError(error)
+      },
+      children:
+        children && renderedComponentModule
+          ? children({
+              ...context,
+              properties,
+              component: renderedComponentModule,
+            })
+          : renderedComponentModule,
+    }),
+  )
+}
@@ -0,0 +1,68 @@
+import { useRouterContext } from '../contexts/RouterContext'
+import { getFragmentKey } from '../utilities'
+import FragmentComponent, { FragmentProps } from './Fragment'
+import { castArray, Fragment, isDefined, isNotNull } from '@navigare/core'
+import {
+  createElement,
+  Fragment as ReactFragment,
+  ReactElement,
+  ReactNode,
+} from 'react'
+
+export type RenderedFragment = Omit<Fragment, 'component'> & {
+  component: ReactElement
+}
+
+export type FragmentsProps = {
+  name?: string
+  children?: (options: {
+    fragment: RenderedFragment | null
+    fragments: RenderedFragment[]
+  }) => ReactNode
+  renderFragment?: FragmentProps['children']
+}
+
+export default function Fragments({
+  name = 'default',
+  children,
+  renderFragment,
+}: FragmentsProps): ReactElement {
+  const { page } = useRouterContext()
+  const fragments = castArray(page.fragments[name])
+    .filter(isDefined)
+    .filter(isNotNull)
+
+  const render = (fragment: Fragment) => {
+    return createElement(FragmentComponent, {
+      key: getFragmentKey(fragment),
+      name,
+      fragment,
+      children: renderFragment,
+    })
+  }
+
+  if (children) {
+    const [firstFragment] = fragments
+
+    return createElement(
+      ReactFragment,
+      null,
+      children({
+        fragment: firstFragment
+          ? {
+              ...firstFragment,
+              component: render(firstFragment),
+            }
+          : null,
+        fragments: fragments.map((fragment) => {
+          return {
+            ...fragment,
+            component: render(fragment),
+          }
+        }),
+      }),
+    )
+  }
+
+  return createElement(ReactFragment, null, fragments.map(render))
+}
@@ -0,0 +1,192 @@
+import InputContext from '../contexts/InputContext'
+import useInput from '../hooks/useInput'
+import {
+  FormControl,
+  FormErrors,
+  FormInputName,
+  FormValidationOptions,
+  FormValue,
+} from '../types'
+import {
+  ChangeEvent,
+  ComponentPropsWithoutRef,
+  createElement,
+  FocusEvent,
+  Fragment,
+  FormEvent,
+  ReactElement,
+  ReactNode,
+  RefObject,
+  useEffect,
+  useRef,
+} from 'react'
+
+export type InputRenderProps = {
+  form: FormControl
+  value: FormValue
+  setValue: (value: FormValue) => void
+  ref: RefObject<HTMLInputElement>
+  attributes: {
+    id: string | undefined
+    name: string | undefined
+    disabled: boolean
+  }
+  events: {
+    onFocus: (event: FocusEvent) => void
+    onBlur: (event: FocusEvent) => void
+    onInput: (event: FormEvent) => void
+    onChange: (event: ChangeEvent) => void
+  }
+  errorMessage: string
+  nestedErrors: FormErrors
+}
+
+export type InputProps = {
+  form?: FormControl
+  name: FormInputName
+  type?: string
+  validation?: FormValidationOptions
+  children?: (props: InputRenderProps) => ReactNode
+  label?: (props: InputRenderProps) => ReactNode
+  feedback?: (props: InputRenderProps) => ReactNode
+} & Omit<
+  ComponentPropsWithoutRef<'input'>,
+  'form' | 'name' | 'type' | 'value' | 'children'
+>
+
+export default function Input({
+  form,
+  name,
+  type = 'text',
+  validation,
+  children,
+  label,
+  feedback,
+  onFocus,
+  onBlur,
+  onInput,
+  onChange,
+  ...restAttributes
+}: InputProps): ReactElement {
+  const input = useInput(name, {
+    form,
+    validation,
+  })
+  const element = useRef<HTMLInputElement>(null)
+
+  // Set validation message
+  useEffect(() => {
+    if (feedback || !(element.current instanceof HTMLInputElement)) {
+      return
+    }
+
+    element.current.setCustomValidity(input.errorMessage)
+
+    if (input.errorMessage && input.focused) {
+      element.current.reportValidity()
+    }
+  }, [input.errorMessage])
+
+  // Display validation message when focused (but wait for the next validation first)
+  useEffect(() => {
+    if (!input.focused || input.validating) {
+      return
+    }
+
+    if (element.current instanceof HTMLInputElement) {
+      element.current.reportValidity()
+    }
+  }, [input.focused])
+
+  const attributes = {
+    ...restAttributes,
+    id: input.form.getInputId(input.path),
+    name: input.form.getInputName(input.path),
+    disabled: !!(
+      restAttributes.disabled ||
+      input.form.processing ||
+      input.form.disabled
+    ),
+  }
+  const events: InputRenderProps['events'] = {
+    onFocus: (event) => {
+      onFocus?.(event as FocusEvent<HTMLInputElement>)
+      input.focus()
+    },
+    onBlur: (event) => {
+      onBlur?.(event as FocusEvent<HTMLInputElement>)
+      input.blur()
+    },
+    onInput: (event) => {
+      onInput?.(event as FormEvent<HTMLInputElement>)
+      input.handleInput(event.nativeEvent)
+    },
+    onChange: (event) => {
+      onChange?.(event as ChangeEvent<HTMLInputElement>)
+      input.handleChange(event.nativeEvent)
+    },
+  }
+  const renderProps: InputRenderProps = {
+    form: input.form,
+    value: input.value,
+    setValue: input.setValue,
+    ref: element,
+    attributes,
+    events,
+    errorMessage: input.errorMessage,
+    nestedErrors: input.nestedErrors,
+  }
+
+  // Render children if a render function was passed
+  if (children) {
+    return createElement(
+      InputContext.Provider,
+      {
+        value: input,
+      },
+      children(renderProps),
+    )
+  }
+
+  // Render simple input
+  const valueAttributes =
+    type === 'file'
+      ? {}
+      : type === 'checkbox' || type === 'radio'
+      ? {
+          checked: !!input.value,
+        }
+      : {
+          value: (input.value ?? '') as string | number,
+        }
+
+  return createElement(
+    InputContext.Provider,
+    {
+      value: input,
+    },
+    createElement(
+      Fragment,
+      null,
+      label?.(renderProps),
+      createElement('input', {
+        ref: element,
+        type,
+        ...attributes,
+        ...events,
+        ...valueAttributes,
+        onChange: (event: ChangeEvent<HTMLInputElement>) => {
+          // Files cannot be controlled so they are read by `useInput`
+          if (type !== 'file') {
+            input.setValue(
+              type === 'checkbox' ? event.target.checked : event.target.value,
+            )
+          }
+
+          events.onChange(event)
+        },
+      }),
+      feedback?.(renderProps),
+    ),
+  )
+}
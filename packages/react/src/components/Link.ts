@@ -0,0 +1,168 @@
+import useRoutable from '../hooks/useRoutable'
+import { MatchingRoutePropType } from '../types'
+import { classNames } from '../utilities'
+import {
+  RawRouteMethod,
+  VisitData,
+  RouteMethod,
+  RouterEventListener,
+  isString,
+} from '@navigare/core'
+import {
+  ComponentPropsWithoutRef,
+  ComponentType,
+  createElement,
+  MouseEvent,
+  ReactElement,
+  useEffect,
+} from 'react'
+
+export type LinkProps = {
+  as?: string | ComponentType<any>
+  route?: MatchingRoutePropType
+  data?: VisitData
+  method?: RawRouteMethod
+  replace?: boolean
+  preserveScroll?: boolean
+  preserveState?: boolean | null
+  properties?: string[]
+  headers?: Record<string, string>
+  prefetch?: boolean
+  active?: boolean
+  activeClassName?: string
+  inactiveClassName?: string
+  pendingClassName?: string
+  disabled?: boolean
+  onClick?: (event: MouseEvent) => void
+  onMouseEnter?: (event: MouseEvent) => void
+  onBefore?: RouterEventListener<'before'>
+  onStart?: RouterEventListener<'start'>
+  onProgress?: RouterEventListener<'progress'>
+  onFinish?: RouterEventListener<'finish'>
+  onCancel?: RouterEventListener<'cancel'>
+  onSuccess?: RouterEventListener<'success'>
+  onError?: RouterEventListener<'error'>
+} & Omit<ComponentPropsWithoutRef<'a'>, 'onClick' | 'onMouseEnter' | 'onError'>
+
+export default function Link({
+  as: asProp,
+  route,
+  data = {},
+  method = 'GET',
+  replace = false,
+  preserveScroll = false,
+  preserveState = null,
+  properties = [],
+  headers = {},
+  prefetch = false,
+  active,
+  className,
+  activeClassName,
+  inactiveClassName,
+  pendingClassName,
+  disabled,
+  onClick,
+  onMouseEnter,
+  onBefore,
+  onStart,
+  onProgress,
+  onFinish,
+  onCancel,
+  onSuccess,
+  onError,
+  children,
+  ...attributes
+}: LinkProps): ReactElement {
+  const routable = useRoutable(route, {
+    data,
+    method,
+    prefetch,
+  })
+
+  if (attributes.href) {
+    console.warn(
+      'Pass the `route` prop instead of the `href` attribute to `Link` to ensure proper routing.',
+    )
+  }
+
+  const as =
+    asProp ??
+    (routable.method
+      ? routable.method === RouteMethod.GET
+        ? 'a'
+        : 'button'
+      : 'a')
+
+  if (isString(as) && as.toLowerCase() === 'a') {
+    // Warn about issues with non-GET requests
+    if (routable.method && routable.method !== RouteMethod.GET) {
+      console.warn(
+        `Creating POST/PUT/PATCH/DELETE <a> links is discouraged as it causes "Open Link in New Tab/Window" accessibility issues.\n\nPlease specify a more appropriate element using the "as" prop. For example:\n\n<Link route="${route}" method="${routable.method}" as="button">...</Link>`,
+      )
+    }
+  }
+
+  // Render a disabled link instead of throwing if the route is invalid
+  const invalid = routable.issues.length > 0
+  const issues = routable.issues.map(({ message }) => message).join('\n')
+
+  // Warn once per change instead of on every render
+  useEffect(() => {
+    if (!issues) {
+      return
+    }
+
+    console.warn(
+      `The route passed to \`Link\` cannot be resolved:\n\n${issues}`,
+    )
+  }, [issues])
+
+  return createElement(
+    as,
+    {
+      ...attributes,
+      disabled,
+      'data-pending': routable.pending,
+      'data-active': routable.active,
+      ...(invalid
+        ? {
+            'data-invalid': true,
+            'aria-disabled': true,
+            title: issues,
+          }
+        : {}),
+      className: classNames(
+        className,
+        routable.active || active ? activeClassName : inactiveClassName,
+        routable.pending ? pendingClassName : undefined,
+      ),
+      ...routable.getAttributes({
+        disabled: !!disabled || invalid,
+
+        events: {
+          click: onClick,
+          mouseenter: onMouseEnter,
+        },
+
+        visit: {
+          replace,
+          preserveScroll,
+          preserveState:
+            preserveState ?? routable.method?.toUpperCase() !== RouteMethod.GET,
+          properties,
+          headers,
+          events: {
+            before: onBefore,
+            start: onStart,
+            progress: onProgress,
+            finish: onFinish,
+            cancel: onCancel,
+            success: onSuccess,
+            error: onError,
+          },
+        },
+      }),
+    },
+    children,
+  )
+}
@@ -0,0 +1,62 @@
+import RouterContext, { RouterContextValue } from '../contexts/RouterContext'
+import DefaultLayout from './DefaultLayout'
+import { clonePage, Router } from '@navigare/core'
+import {
+  ComponentType,
+  createElement,
+  ReactElement,
+  ReactNode,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react'
+
+export type RootProps = {
+  router: Router<ComponentType<any>>
+  layout: string | null
+  children?: (options: { layout: string | null }) => ReactNode
+}
+
+export default function Root({
+  router,
+  layout: initialLayout,
+  children,
+}: RootProps): ReactElement {
+  const [page, setPage] = useState(() => router.page)
+  const [layout, setLayout] = useState(initialLayout ?? null)
+
+  // Handle navigate event to update page and layout
+  useEffect(() => {
+    const removeListener = router.on('navigate', (event) => {
+      setPage(clonePage(event.detail.page))
+      setLayout(event.detail.page.layout ?? null)
+    })
+
+    // Catch up with navigations that happened before the listener was attached
+    setPage(router.page)
+
+    return removeListener
+  }, [router])
+
+  // Provide router context
+  const context = useMemo<RouterContextValue>(() => {
+    return {
+      router,
+      page,
+    }
+  }, [router, page])
+
+  return createElement(
+    RouterContext.Provider,
+    {
+      value: context,
+    },
+    children
+      ? children({
+          layout,
+        })
+      : createElement(DefaultLayout, {
+          layout,
+        }),
+  )
+}
@@ -0,0 +1,16 @@
+import { FormControl } from '../types'
+import { createContext, useContext } from 'react'
+
+export type FormContextValue = {
+  form: FormControl | null
+}
+
+const FormContext = createContext<FormContextValue>({
+  form: null,
+})
+
+export function useFormContext(): FormContextValue {
+  return useContext(FormContext)
+}
+
+export default FormContext
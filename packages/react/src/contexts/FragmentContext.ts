@@ -0,0 +1,19 @@
+import { Fragment, Page } from '@navigare/core'
+import { createContext, useContext } from 'react'
+
+export type FragmentContextValue = {
+  name: string
+  fragment: Fragment
+  page: Omit<Page, 'fragments'>
+  key: string
+}
+
+const FragmentContext = createContext<FragmentContextValue | undefined>(
+  undefined,
+)
+
+export function useFragmentContext(): FragmentContextValue | undefined {
+  return useContext(FragmentContext)
+}
+
+export default FragmentContext
@@ -0,0 +1,10 @@
+import { InputControl } from '../types'
+import { createContext, useContext } from 'react'
+
+const InputContext = createContext<InputControl | undefined>(undefined)
+
+export function useInputContext(): InputControl | undefined {
+  return useContext(InputContext)
+}
+
+export default InputContext
@@ -0,0 +1,23 @@
+import { Page, Router, throwError } from '@navigare/core'
+import { ComponentType, createContext, useContext } from 'react'
+
+export type RouterContextValue = {
+  router: Router<ComponentType<any>>
+  page: Page
+}
+
+const RouterContext = createContext<RouterContextValue | null>(null)
+
+export function useRouterContext(): RouterContextValue {
+  const context = useContext(RouterContext)
+
+  if (!context) {
+    throwError(
+      'Router context is not available. Did you use `createApp` before?',
+    )
+  }
+
+  return context
+}
+
+export default RouterContext
@@ -0,0 +1,86 @@
+import Root from './components/Root'
+import { Options, App } from './types'
+import {
+  Page,
+  throwError,
+  isSSR,
+  safeParse,
+  Router,
+  RouterOptions,
+  getKeys,
+} from '@navigare/core'
+import { ComponentType } from 'react'
+
+export default function createApp({
+  id = 'app',
+  setup,
+  resolveComponentModule,
+  fragments = {
+    modal: {
+      stacked: true,
+    },
+  },
+  ...restOptions
+}: Options): (initialPage?: Page) => Promise<App> {
+  return async (initialPage) => {
+    // Determine initial page
+    let initialPageWithFallback: Page | null = initialPage ?? null
+    let base = '/'
+
+    if (!isSSR()) {
+      const element = document.getElementById(id)
+
+      if (element) {
+        initialPageWithFallback =
+          safeParse(element.dataset.page, () => null) ?? initialPageWithFallback
+        base = element.dataset.base ?? base
+      }
+    }
+
+    if (!initialPageWithFallback) {
+      throwError('Navigare: no initial page is specified')
+    }
+
+    // Create Router instance
+    const options: RouterOptions<ComponentType<any>> = {
+      initialPage: initialPageWithFallback,
+      resolveComponentModule,
+      fragments,
+      base,
+      ...restOptions,
+    }
+    const router = new Router<ComponentType<any>>(options)
+
+    // Preload initial page
+    await router.resolvePage(initialPageWithFallback)
+
+    // Create root element
+    const root = setup({
+      Root,
+      props: {
+        router,
+        layout: options.initialPage.layout ?? null,
+      },
+      initialPage: initialPageWithFallback,
+      router,
+    })
+
+    // Remove page from dataset
+    if (!isSSR()) {
+      const element = document.getElementById(id)
+
+      if (element) {
+        for (const key of getKeys(element.dataset)) {
+          delete element.dataset[key]
+        }
+      }
+    }
+
+    return {
+      id,
+      page: initialPageWithFallback,
+      root,
+      router,
+    }
+  }
+}
@@ -0,0 +1,472 @@
+import {
+  FormControl,
+  FormErrors,
+  FormEvents,
+  FormInputName,
+  FormOptions,
+  FormTrigger,
+  FormValues,
+} from '../types'
+import useFragment from './useFragment'
+import useRouter from './useRouter'
+import {
+  Routable,
+  VisitProgress,
+  getKeys,
+  isDefined,
+  createEmitter,
+  isFunction,
+  isEqual,
+  mergeWith,
+  set,
+  get,
+  castArray,
+  cloneDeep,
+  getFormInputId,
+  getFormInputName,
+  submitForm,
+  validateFormInput,
+} from '@navigare/core'
+import { useEffect, useMemo, useRef, useState } from 'react'
+
+type FormState<TValues extends FormValues> = {
+  values: TValues
+  initialValues: TValues
+  errors: FormErrors
+  processing: boolean
+  progress: VisitProgress | null
+  successful: boolean | undefined
+  recentlySuccessful: boolean | undefined
+  queuedEntries: number[]
+  focused: FormInputName | null
+  blockers: Record<string, boolean>
+  disabled: boolean
+  trigger: FormTrigger
+}
+
+export default function useForm<
+  TValues extends FormValues = FormValues,
+  TRoutable extends Routable = never,
+>(
+  name: string,
+  initialValues: TValues | (() => TValues),
+  routable: TRoutable | ((values: TValues) => any | Promise<any>) | null,
+  options: FormOptions<TValues, TRoutable> = {},
+): FormControl<TValues> {
+  const router = useRouter()
+  const fragment = useFragment()
+  const [emitter] = useState(() => {
+    return createEmitter<FormEvents<TValues>>({
+      validate: {
+        options: {
+          cancelable: true,
+        },
+      },
+    })
+  })
+
+  // Handlers read the latest arguments so they don't need to be recreated
+  const latest = useRef({ name, initialValues, routable, options, fragment })
+  latest.current = { name, initialValues, routable, options, fragment }
+
+  const getInitialOrRestoredValues = (): TValues => {
+    const { name, initialValues, options } = latest.current
+    const restoredValues = router.instance.restore(name)
+    if (options.remember && restoredValues) {
+      return cloneDeep(restoredValues) as TValues
+    }
+
+    return cloneDeep(
+      isFunction(initialValues) ? initialValues() : initialValues,
+    )
+  }
+  const [state, setState] = useState<FormState<TValues>>(() => {
+    const values = getInitialOrRestoredValues()
+
+    return {
+      values,
+      initialValues: cloneDeep(values),
+      errors: {},
+      processing: false,
+      progress: null,
+      successful: undefined,
+      recentlySuccessful: undefined,
+      queuedEntries: [],
+      focused: null,
+      blockers: {},
+      disabled: false,
+      trigger: null,
+    }
+  })
+  const stateRef = useRef(state)
+  const update = (
+    patch:
+      | Partial<FormState<TValues>>
+      | ((state: FormState<TValues>) => Partial<FormState<TValues>>),
+  ) => {
+    stateRef.current = {
+      ...stateRef.current,
+      ...(isFunction(patch) ? patch(stateRef.current) : patch),
+    }
+    setState(stateRef.current)
+  }
+
+  // Derive state
+  const dirty = !isEqual(state.values, state.initialValues)
+  const valid = Object.values(state.errors).every((error) => {
+    if (!error) {
+      return true
+    }
+
+    return error.length === 0
+  })
+  const blocked = getKeys(state.blockers).some((key) => {
+    return !!state.blockers[key]
+  })
+  const disabled = state.disabled || !!options.disabled
+
+  // Remember values
+  useEffect(() => {
+    if (!options.remember) {
+      return
+    }
+
+    router.instance.remember(state.values, name)
+  }, [state.values, name, options.remember])
+
+  // Temporary set recentlySuccessful
+  useEffect(() => {
+    if (!state.successful) {
+      return
+    }
+
+    update({
+      recentlySuccessful: true,
+    })
+
+    const timeout = setTimeout(() => {
+      update({
+        recentlySuccessful: false,
+      })
+    }, 2000)
+
+    return () => {
+      clearTimeout(timeout)
+    }
+  }, [state.successful])
+
+  const methods = useMemo(() => {
+    const methods: Pick<
+      FormControl<TValues>,
+      | 'submit'
+      | 'validate'
+      | 'reset'
+      | 'clearValues'
+      | 'setValue'
+      | 'setValues'
+      | 'block'
+      | 'unblock'
+      | 'focus'
+      | 'blur'
+      | 'enable'
+      | 'disable'
+      | 'getInputId'
+      | 'getInputName'
+      | 'on'
+      | 'off'
+      | 'setErrors'
+      | 'setError'
+      | 'clearErrors'
+    > = {
+      submit: async (submitOptions = {}) => {
+        const { routable, options, fragment } = latest.current
+        const { processing, blockers, disabled } = stateRef.current
+
+        // Stop early if there is no need to submit the form
+        if (
+          disabled ||
+          options.disabled ||
+          processing ||
+          Object.values(blockers).some(Boolean)
+        ) {
+          return undefined
+        }
+
+        return await submitForm(router.instance, {
+          values: cloneDeep(stateRef.current.values),
+
+          errors: stateRef.current.errors,
+
+          target: routable,
+
+          fragmentName: fragment.name ?? undefined,
+
+          background: submitOptions.background,
+
+          transform: options.transform,
+
+          optimistic: submitOptions.optimistic,
+
+          emit: (name, details) => {
+            return emitter.emit(name, details, [
+              options.events?.[name],
+              submitOptions.events?.[name],
+            ])
+          },
+
+          // Indicate processing state and remember which element triggered the submission
+          onStart: () => {
+            update({
+              processing: true,
+              trigger: submitOptions.trigger ?? null,
+            })
+          },
+
+          onProgress: (progress) => {
+            update({
+              progress,
+            })
+          },
+
+          onSuccess: () => {
+            update({
+              successful: true,
+              errors: {},
+            })
+
+            // Reset values
+            if (!isDefined(options.reset) || !!options.reset) {
+              methods.reset()
+            }
+          },
+
+          onError: (errors) => {
+            update({
+              successful: false,
+              errors,
+            })
+          },
+
+          onQueued: (entry) => {
+            update(({ queuedEntries }) => ({
+              queuedEntries: [...queuedEntries, entry.id],
+            }))
+          },
+
+          onReplayed: (entry, successful) => {
+            update(({ queuedEntries }) => ({
+              successful,
+              queuedEntries: queuedEntries.filter((entryId) => {
+                return entryId !== entry.id
+              }),
+            }))
+          },
+
+          onFinish: () => {
+            update({
+              processing: false,
+              trigger: null,
+            })
+          },
+        })
+      },
+
+      validate: async (path) => {
+        const { routable } = latest.current
+
+        if (!routable || isFunction(routable)) {
+          return
+        }
+
+        const name = getFormInputName(path)
+        const errors = await validateFormInput(
+          router.instance,
+          routable,
+          stateRef.current.values,
+          name,
+        )
+
+        if (errors === null) {
+          methods.setError(name, null)
+        } else if (errors) {
+          methods.setErrors(errors)
+        }
+      },
+
+      reset: (paths) => {
+        const previousValues = cloneDeep(stateRef.current.values)
+        const initialValues = getInitialOrRestoredValues()
+
+        update({
+          initialValues: cloneDeep(initialValues),
+        })
+        methods.clearValues(paths)
+        methods.clearErrors(paths)
+
+        emitter.emit('reset', {
+          previousValues,
+          nextValues: initialValues,
+        })
+      },
+
+      clearValues: (paths) => {
+        const { initialValues } = stateRef.current
+
+        if (!paths) {
+          methods.setValues(initialValues)
+          return
+        }
+
+        for (const path of paths) {
+          methods.setValue(path, get(initialValues, path))
+        }
+      },
+
+      setValue: (path, value) => {
+        update(({ values }) => {
+          const nextValues = cloneDeep(values)
+          set(nextValues, castArray(path), value)
+
+          return {
+            values: nextValues,
+          }
+        })
+
+        emitter.emit('change', {
+          values: stateRef.current.values,
+        })
+      },
+
+      setValues: (nextValues) => {
+        update(({ values }) => {
+          return {
+            values: {
+              ...values,
+              ...Object.fromEntries(
+                getKeys(nextValues)
+                  .filter((key) => key in values)
+                  .map((key) => [key, cloneDeep(nextValues[key])]),
+              ),
+            },
+          }
+        })
+
+        emitter.emit('change', {
+          values: stateRef.current.values,
+        })
+      },
+
+      block: (path) => {
+        update(({ blockers }) => ({
+          blockers: {
+            ...blockers,
+            [getFormInputName(path)]: true,
+          },
+        }))
+      },
+
+      unblock: (path) => {
+        update(({ blockers }) => ({
+          blockers: {
+            ...blockers,
+            [getFormInputName(path)]: false,
+          },
+        }))
+      },
+
+      focus: (path) => {
+        update({
+          focused: getFormInputName(path),
+        })
+      },
+
+      blur: () => {
+        update({
+          focused: null,
+        })
+      },
+
+      enable: () => {
+        update({
+          disabled: false,
+        })
+      },
+
+      disable: () => {
+        update({
+          disabled: true,
+        })
+      },
+
+      getInputName: getFormInputName,
+
+      getInputId: getFormInputId,
+
+      on: (name, listener) => {
+        if (!listener) {
+          return () => undefined
+        }
+
+        return emitter.on(name, listener)
+      },
+
+      off: (name, listener) => {
+        return emitter.off(name, listener)
+      },
+
+      setErrors: (nextErrors) => {
+        update(({ errors }) => ({
+          errors: mergeWith({}, errors, nextErrors),
+        }))
+      },
+
+      setError: (path, error) => {
+        update(({ errors }) => ({
+          errors: {
+            ...errors,
+            [getFormInputName(path)]: error ?? null,
+          },
+        }))
+      },
+
+      clearErrors: (paths) => {
+        if (!paths) {
+          update({
+            errors: {},
+          })
+          return
+        }
+
+        for (const path of paths) {
+          methods.setError(path, null)
+        }
+      },
+    }
+
+    return methods
+  }, [])
+
+  return {
+    ...methods,
+    name,
+    options: {
+      validation: options.validation ?? true,
+    },
+    values: state.values,
+    initialValues: state.initialValues,
+    routable: isFunction(routable) ? null : routable,
+    errors: state.errors,
+    dirty,
+    focused: state.focused,
+    successful: state.successful,
+    recentlySuccessful: state.recentlySuccessful,
+    queued: state.queuedEntries.length > 0,
+    blocked,
+    blockers: state.blockers,
+    processing: state.processing,
+    disabled,
+    valid,
+    progress: state.progress,
+    trigger: state.trigger,
+  }
+}
@@ -0,0 +1,67 @@
+import { useFragmentContext } from '../contexts/FragmentContext'
+import { useRouterContext } from '../contexts/RouterContext'
+import { FragmentControl } from '../types'
+import { getFragmentKey } from '../utilities'
+import { castArray, isDefined, isNotNull } from '@navigare/core'
+import { useEffect, useMemo, useState } from 'react'
+
+export default function useFragment(): FragmentControl
+export default function useFragment(name: string): Partial<FragmentControl>
+export default function useFragment(
+  name?: string,
+): FragmentControl | Partial<FragmentControl> {
+  const { router, page: activePage } = useRouterContext()
+  const context = useFragmentContext()
+
+  // Named fragments are looked up in the current page
+  const fragment = useMemo(() => {
+    if (!name) {
+      return context?.fragment
+    }
+
+    return castArray(activePage.fragments[name])
+      .filter(isDefined)
+      .filter(isNotNull)
+      .slice(-1)[0]
+  }, [name, context?.fragment, activePage])
+  const fragmentName = name ?? context?.name ?? undefined
+  const page = (name ? fragment?.page : context?.page) ?? activePage
+  const key = name
+    ? fragment
+      ? getFragmentKey(fragment)
+      : null
+    : context?.key ?? null
+  const properties = useMemo(() => {
+    return {
+      ...page.properties,
+      ...fragment?.properties,
+    }
+  }, [page.properties, fragment?.properties])
+
+  // Track visits of this fragment
+  const [pending, setPending] = useState(() => router.isPending(fragmentName))
+  useEffect(() => {
+    const handleVisit = () => {
+      setPending(router.isPending(fragmentName))
+    }
+    const removeStartListener = router.on('start', handleVisit)
+    const removeFinishListener = router.on('finish', handleVisit)
+
+    return () => {
+      removeStartListener()
+      removeFinishListener()
+    }
+  }, [router, fragmentName])
+
+  return {
+    name: fragmentName ?? null,
+    key,
+    rawRoute: page.rawRoute,
+    parameters: page.parameters,
+    defaults: page.defaults,
+    location: page.location,
+    properties,
+    visit: page.visit,
+    pending,
+  }
+}
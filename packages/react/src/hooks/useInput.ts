@@ -0,0 +1,171 @@
+import { useFormContext } from '../contexts/FormContext'
+import { useInputContext } from '../contexts/InputContext'
+import {
+  FormControl,
+  FormError,
+  FormErrors,
+  FormInputName,
+  FormSubmitOptions,
+  FormValidationOptions,
+  FormValue,
+  InputControl,
+} from '../types'
+import {
+  throwError,
+  isNotNull,
+  debounce,
+  get,
+  isArray,
+  isBoolean,
+  isString,
+} from '@navigare/core'
+import { useEffect, useMemo, useState } from 'react'
+
+const resolveValidation = (
+  validation: FormValidationOptions | undefined,
+): Partial<{
+  on: 'input' | 'change' | false
+  debounce: number
+}> => {
+  if (validation === false) {
+    return {
+      on: false,
+    }
+  }
+
+  if (validation === true || !validation) {
+    return {}
+  }
+
+  return validation
+}
+
+export default function useInput(
+  name: FormInputName,
+  options: {
+    form?: FormControl
+    submitOnChange?: boolean | FormSubmitOptions
+    validation?: FormValidationOptions
+  } = {},
+): InputControl {
+  const { form: contextForm } = useFormContext()
+  const form = options.form ?? contextForm
+
+  if (!form) {
+    throwError(
+      'You must either nest the Input within a Form component or pass a form (that was created via `useForm`) to the Input component.',
+    )
+  }
+
+  const parent = useInputContext()
+  const path = parent ? [...parent.path, name] : [name]
+  const inputName = form.getInputName(path)
+  const id = form.getInputId(path)
+  const value = get(form.values, path) as FormValue
+  const errors: FormError = get(form.errors, inputName) ?? null
+  const errorMessage = isArray(errors)
+    ? errors.join('')
+    : isString(errors)
+    ? errors
+    : ''
+  const nestedErrors: FormErrors = Object.fromEntries(
+    Object.entries(form.errors)
+      .map(([key, value]) => {
+        if (!key.startsWith(`${inputName}.`)) {
+          return null
+        }
+
+        return [key.substring(inputName.length + 1), value]
+      })
+      .filter(isNotNull),
+  )
+  const [validating, setValidating] = useState(false)
+  const [touched, setTouched] = useState(false)
+  const focused = !!form.focused && form.focused === inputName
+  const validation = {
+    on: 'input',
+    debounce: 300,
+    ...resolveValidation(form.options.validation),
+    ...resolveValidation(options.validation),
+  } as const
+
+  // Debounce validation requests per input
+  const validate = useMemo(() => {
+    return debounce(async () => {
+      setValidating(true)
+
+      await form.validate(path)
+
+      setValidating(false)
+    }, validation.debounce)
+  }, [form.validate, inputName, validation.debounce])
+  useEffect(() => {
+    return () => {
+      validate.cancel()
+    }
+  }, [validate])
+
+  // Create handlers
+  const submit = (submitOptions?: FormSubmitOptions) => {
+    form.submit(submitOptions)
+  }
+  const handleInput = () => {
+    if (validation.on === 'input') {
+      validate()
+    }
+  }
+  const handleChange = (event?: Event) => {
+    if (validation.on === 'change') {
+      validate()
+    }
+
+    // Files cannot be controlled so they are read from the element
+    if (
+      event?.target instanceof HTMLInputElement &&
+      event.target.type === 'file'
+    ) {
+      form.setValue(path, event.target.files?.[0] ?? null)
+    }
+
+    // Submit if requested
+    if (options.submitOnChange) {
+      submit(
+        isBoolean(options.submitOnChange) ? undefined : options.submitOnChange,
+      )
+    }
+  }
+
+  return {
+    form,
+    path,
+    id,
+    name: inputName,
+    value,
+    errorMessage,
+    nestedErrors,
+    validating,
+    focused,
+    touched,
+    setValue: (nextValue) => {
+      form.setValue(path, nextValue)
+
+      // Reset errors because the new value might be valid
+      if (errors) {
+        form.setError(path, null)
+      }
+    },
+    validate: async () => {
+      await validate()
+    },
+    focus: () => {
+      setTouched(true)
+      form.focus(path)
+    },
+    blur: () => {
+      form.blur(path)
+    },
+    submit,
+    handleInput,
+    handleChange,
+  }
+}
@@ -0,0 +1,8 @@
+import { useRouterContext } from '../contexts/RouterContext'
+import { Page } from '@navigare/core'
+
+export default function usePage(): Page {
+  const { page } = useRouterContext()
+
+  return page
+}
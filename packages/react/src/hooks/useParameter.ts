@@ -0,0 +1,11 @@
+import useRouter from './useRouter'
+import { RouteParameter, get } from '@navigare/core'
+
+export default function useParameter<TParameter extends RouteParameter>(
+  key: string,
+  defaultValue?: TParameter,
+): TParameter {
+  const router = useRouter()
+
+  return (get(router.parameters, key) || defaultValue) as TParameter
+}
@@ -0,0 +1,218 @@
+import { FragmentControl, MatchingRoutePropType } from '../types'
+import useFragment from './useFragment'
+import useRouter from './useRouter'
+import {
+  isDefined,
+  RawRouteMethod,
+  RouteMethod,
+  RouterLocation,
+  VisitData,
+  VisitOptions,
+  ResolvedRoutable,
+  Route,
+  RouteIssue,
+  Component,
+  castArray,
+  isArray,
+  shouldInterceptLink,
+} from '@navigare/core'
+import { MouseEvent, useMemo, useState } from 'react'
+
+export default function useRoutable(
+  route: MatchingRoutePropType | undefined,
+  options: {
+    data?: VisitData
+    method?: RawRouteMethod
+    prefetch?: boolean
+  } = {},
+): {
+  href?: string
+  active: boolean
+  foreign: boolean
+  method: RouteMethod | undefined
+  components: Component[] | undefined
+  location: RouterLocation | undefined
+  preload: () => Promise<void>
+  visit: (options?: VisitOptions) => Promise<void>
+  pending: boolean
+  issues: RouteIssue[]
+  fragment: FragmentControl
+  shouldInterceptLink: (event: KeyboardEvent | globalThis.MouseEvent) => boolean
+  getAttributes: (
+    options?: Partial<{
+      disabled: boolean
+      visit: VisitOptions
+      events: Partial<{
+        click: (event: MouseEvent) => void
+        mouseenter: (event: MouseEvent) => void
+      }>
+    }>,
+  ) => {
+    href?: string
+    rel?: string
+    onMouseEnter: (event: MouseEvent) => void
+    onClick: (event: MouseEvent) => void
+  }
+} {
+  const router = useRouter()
+  const fragment = useFragment()
+  const { data = {}, method = 'GET', prefetch = false } = options
+  const routable = isArray(route) ? route[0] : route
+  const issues = useMemo((): RouteIssue[] => {
+    // Invalid parameters are only reported during development, otherwise
+    // resolving the route will throw as usual
+    if (process.env.NODE_ENV === 'production' || !(routable instanceof Route)) {
+      return []
+    }
+
+    return routable.validate({
+      defaults: fragment.defaults,
+    })
+  }, [routable, fragment.defaults])
+  const resolvedRoutable = useMemo((): ResolvedRoutable | undefined => {
+    if (!router.instance.isRoutable(routable) || issues.length) {
+      return undefined
+    }
+
+    return router.instance.resolveRoutable(routable, data, {
+      method,
+    })
+  }, [router.instance, routable, data, method, issues])
+  const foreign = useMemo(() => {
+    const { location } = resolvedRoutable || {}
+
+    if (!location?.origin) {
+      return false
+    }
+
+    return location.origin !== router.location.origin
+  }, [resolvedRoutable, router.location.origin])
+  const active = useMemo(() => {
+    const routes = castArray(route).filter(isDefined)
+
+    if (routes.length === 0) {
+      return false
+    }
+
+    // Check if the passed routes match the current location
+    return router.match(
+      routes,
+      new Route(fragment.rawRoute, fragment.parameters, {
+        absolute: true,
+      }),
+    )
+  }, [route, router.match, fragment.rawRoute, fragment.parameters])
+  const [pending, setPending] = useState(false)
+  const resolvedHref = resolvedRoutable?.location.href
+  const resolvedMethod = resolvedRoutable?.method
+  const location = resolvedRoutable?.location
+
+  // Create handlers
+  const preload = async () => {
+    const { components = [] } = resolvedRoutable || {}
+
+    await Promise.all([
+      ...components.map((component) => {
+        return router.instance.getComponentModule(component)
+      }),
+
+      // Fetch the page itself so the visit can be rendered from cache
+      prefetch &&
+      router.instance.isRoutable(routable) &&
+      resolvedMethod === RouteMethod.GET
+        ? router.instance.prefetch(routable, {
+            data,
+            method,
+          })
+        : undefined,
+    ])
+  }
+  const visit = async (options: VisitOptions = {}) => {
+    if (!router.instance.isRoutable(routable)) {
+      return
+    }
+
+    await router.instance.visit(routable, {
+      ...options,
+      data,
+      method: resolvedMethod,
+      events: {
+        ...options.events,
+        start: (event) => {
+          options.events?.start?.(event)
+
+          setPending(true)
+        },
+        finish: (event) => {
+          options.events?.finish?.(event)
+
+          setPending(false)
+        },
+      },
+    })
+  }
+  const getAttributes = (
+    options: Partial<{
+      disabled: boolean
+      visit: VisitOptions
+      events: Partial<{
+        click: (event: MouseEvent) => void
+        mouseenter: (event: MouseEvent) => void
+      }>
+    }> = {},
+  ) => {
+    const { disabled = false, visit: visitOptions, events } = options
+
+    return {
+      ...(resolvedMethod === RouteMethod.GET
+        ? {
+            href: location?.href,
+            rel: foreign ? 'noopener noreferrer' : undefined,
+          }
+        : {}),
+
+      onClick: (event: MouseEvent) => {
+        events?.click?.(event)
+
+        if (
+          !disabled &&
+          !!resolvedHref &&
+          shouldInterceptLink(event.nativeEvent)
+        ) {
+          event.preventDefault()
+          visit(visitOptions)
+        }
+      },
+
+      onMouseEnter: (event: MouseEvent) => {
+        events?.mouseenter?.(event)
+
+        // Preload components whenever the user hovers a link so
+        // we don't lose time when the actual response comes in
+        if (
+          !disabled &&
+          !!resolvedHref &&
+          shouldInterceptLink(event.nativeEvent)
+        ) {
+          preload()
+        }
+      },
+    }
+  }
+
+  return {
+    href: resolvedHref,
+    active,
+    foreign,
+    method: resolvedMethod,
+    components: resolvedRoutable?.components,
+    location,
+    preload,
+    visit,
+    pending,
+    issues,
+    fragment,
+    shouldInterceptLink,
+    getAttributes,
+  }
+}
@@ -1,18 +1,18 @@
-import RouterContext from '../contexts/RouterContext'
+import { useRouterContext } from '../contexts/RouterContext'
 import { RouterControl } from '../types'
 import useFragment from './useFragment'
 import usePage from './usePage'
 import {
-  isArray,
+  MatchableRoute,
   PartialRoute,
   Routable,
   Route,
   RouteName,
 } from '@navigare/core'
-import { useCallback, useContext, useMemo } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 
 export default function useRouter(): RouterControl {
-  const { router } = useContext(RouterContext)
+  const { router } = useRouterContext()
   const page = usePage()
   const fragment = useFragment()
   const route = useMemo<Route>(() => {
@@ -20,22 +20,25 @@ export default function useRouter(): RouterControl {
       absolute: false,
     })
   }, [fragment.rawRoute, fragment.parameters])
-  const parameters = computed(() => fragment.parameters)
+  // The history is read again whenever the page changes
+  const history = useMemo(() => {
+    return {
+      previousPage: router.previousPage,
+      latestPage: router.latestPage,
+      pages: router.pages,
+    }
+  }, [router, page])
+  const [processing, setProcessing] = useState(false)
   const match = useCallback(
     (
       comparableRoute:
         | Routable
         | PartialRoute<RouteName>
         | string
-        | [Routable, ...(PartialRoute | string)[]],
+        | [Routable, ...(PartialRoute | string)[]]
+        | MatchableRoute[],
       baseRoute?: Route<RouteName>,
     ): boolean => {
-      if (isArray(comparableRoute)) {
-        return comparableRoute.some((route) => {
-          return match(route)
-        })
-      }
-
       const matches = router.match(
         comparableRoute,
         baseRoute ?? route,
@@ -45,73 +48,119 @@ export default function useRouter(): RouterControl {
 
       return matches
     },
-    [fragment.location, fragment.defaults, router, route],
+    [router, route, fragment.location, fragment.defaults],
   )
 
-  return {
-    page,
-    previousPage: router.previousPage,
-    latestPage: router.latestPage,
-    pages: router.pages,
-    instance: router,
-    location: page.location,
-    parameters: router.param, route, layout, fragment,
-    fragments, processing,
-
-    visit: useCallback(async (routable, options = {}) => {
-      return await router.visit(routable, options)
-    }, []),
-
-    get: useCallback(async (routable, data = {}, options = {}) => {
-      return await router.get(routable, data, options)
-    }, []),
-
-    post: useCallback(async (routable, data = {}, options = {}) => {
-      return await router.post(routable, data, options)
-    }, []),
-
-    put: useCallback(async (routable, data, options) => {
-      return await router.put(routable, data, options)
-    }, []),
-
-    patch: useCallback(async (routable, data, options) => {
-      return await router.patch(routable, data, options)
-    }, []),
-
-    delete: useCallback(async (routable, options = {}) => {
-      return await router.delete(routable, options)
-    }, []),
-
-    reload: useCallback(async (options = {}) => {
-      return await router.reload(options)
-    }, []),
+  // Listen to visits
+  useEffect(() => {
+    const removeStartListener = router.on('start', () => {
+      setProcessing(true)
+    })
+    const removeFinishListener = router.on('finish', () => {
+      setProcessing(false)
+    })
 
-    back: useCallback(async (fallback) => {
-      return await router.back(fallback)
-    }, []),
+    return () => {
+      removeStartListener()
+      removeFinishListener()
+    }
+  }, [router])
+
+  const methods = useMemo(() => {
+    const methods: Omit<
+      RouterControl,
+      | 'location'
+      | 'parameters'
+      | 'route'
+      | 'page'
+      | 'previousPage'
+      | 'latestPage'
+      | 'pages'
+      | 'layout'
+      | 'fragment'
+      | 'fragments'
+      | 'processing'
+      | 'match'
+    > = {
+      visit: async (routable, options = {}) => {
+        return await router.visit(routable, options)
+      },
+
+      get: async (routable, data = {}, options = {}) => {
+        return await router.get(routable, data, options)
+      },
+
+      post: async (routable, data = {}, options = {}) => {
+        return await router.post(routable, data, options)
+      },
+
+      put: async (routable, data, options) => {
+        return await router.put(routable, data, options)
+      },
+
+      patch: async (routable, data, options) => {
+        return await router.patch(routable, data, options)
+      },
+
+      delete: async (routable, options = {}) => {
+        return await router.delete(routable, options)
+      },
+
+      reload: async (options = {}) => {
+        return await router.reload(options)
+      },
+
+      back: async (fallback) => {
+        return await router.back(fallback)
+      },
+
+      prefetch: async (routable, options = {}) => {
+        return await router.prefetch(routable, options)
+      },
+
+      poll: (interval, options = {}) => {
+        return router.poll(interval, options)
+      },
+
+      on: (name, listener) => {
+        return router.on(name, listener)
+      },
+
+      off: (name, listener) => {
+        return router.off(name, listener)
+      },
+
+      resolve: (routable: Routable) => {
+        return router.resolveRoutable(routable).location.href
+      },
+
+      instance: router,
+
+      generateErrorLink: (file, row, column, url) => {
+        return (
+          router.options.generateErrorLink?.(file, row, column, url) ?? null
+        )
+      },
+
+      reportError: (error: unknown) => {
+        router.reportError(error)
+      },
+    }
+
+    return methods
+  }, [router])
 
+  return {
+    ...methods,
+    ...history,
+    location: page.location,
+    parameters: fragment.parameters,
+    route,
+    page,
+    layout: page.layout,
+    fragment,
+    fragments: page.fragments,
+    processing,
     match,
-
-    on: useCallback((name, listener) => {
-      return router.on(name, listener)
-    }, []),
-
-    off: useCallback((name, listener) => {
-      return router.off(name, listener)
-    }, []),
-
-    resolve: useCallback((routable: Routable) => {
-      return router.resolveRoutable(routable).location.href
-    }, []),
-
-    instance: router,
-
-    generateErrorLink: useCallback((file, row, column, url) => {
-      return router.options.generateErrorLink?.(file, row, column, url) ?? null
-    }, []),
-
-    reportError: useCallback((error: unknown) => {
-      router.reportError(error)
-    }, []),
   }
 }
@@ -0,0 +1,61 @@
+export { default as createNavigareApp, default as createApp } from './createApp'
+
+export {
+  default as NavigareDeferred,
+  default as Deferred,
+} from './components/Deferred'
+
+export { default as NavigareForm, default as Form } from './components/Form'
+
+export { default as NavigareInput, default as Input } from './components/Input'
+
+export { default as NavigareLink, default as Link } from './components/Link'
+
+export { default as mountNavigareApp, default as mountApp } from './mountApp'
+
+export { default as renderNavigareApp, default as renderApp } from './renderApp'
+
+export { default as NavigareRoot, default as Root } from './components/Root'
+
+export {
+  default as NavigareFragments,
+  default as Fragments,
+} from './components/Fragments'
+
+export {
+  default as NavigareFragment,
+  default as Fragment,
+} from './components/Fragment'
+
+export { default as useNavigareForm, default as useForm } from './hooks/useForm'
+
+export {
+  default as useNavigareInput,
+  default as useInput,
+} from './hooks/useInput'
+
+export { default as useNavigarePage, default as usePage } from './hooks/usePage'
+
+export {
+  default as useNavigareFragment,
+  default as useFragment,
+} from './hooks/useFragment'
+
+export {
+  default as useNavigareParameter,
+  default as useParameter,
+} from './hooks/useParameter'
+
+export {
+  default as useNavigareRouter,
+  default as useRouter,
+} from './hooks/useRouter'
+
+export {
+  default as useNavigareRoutable,
+  default as useRoutable,
+} from './hooks/useRoutable'
+
+export * from './types'
+
+export * from './utilities'
@@ -0,0 +1,19 @@
+import { App } from './types'
+import { throwError } from '@navigare/core'
+import { createRoot, hydrateRoot } from 'react-dom/client'
+
+export default async function mountApp({ id, root }: App): Promise<void> {
+  const element = document.getElementById(id)
+
+  if (!element) {
+    throwError(`Navigare: no element with the ID "${id}" was found`)
+  }
+
+  // Hydrate server-side rendered markup
+  if (element.hasChildNodes()) {
+    hydrateRoot(element, root)
+    return
+  }
+
+  createRoot(element).render(root)
+}
@@ -0,0 +1,20 @@
+import { App } from './types'
+import { RenderedApp } from '@navigare/core'
+import { renderToString } from 'react-dom/server'
+
+export default async function renderApp({
+  id,
+  root,
+}: App): Promise<RenderedApp> {
+  const appHTML = renderToString(root)
+
+  return {
+    id,
+    modules: new Set(),
+    headTags: '',
+    htmlAttributes: '',
+    bodyAttributes: '',
+    bodyTags: '',
+    appHTML,
+  }
+}
@@ -0,0 +1,301 @@
+import type Root from './components/Root'
+import {
+  RouterEventListener,
+  RouterEventNames,
+  Page,
+  Fragments,
+  PartialRoute,
+  MatchableRoute,
+  Routable,
+  Route,
+  RouteName,
+  RouteParameter,
+  Router,
+  RouterLocation,
+  RouterOptions,
+  VisitData,
+  VisitOptions,
+  VisitProgress,
+  VisitPrefetchOptions,
+  PollOptions,
+  Visit,
+  FormError,
+  FormErrors,
+  FormEventListener,
+  FormEventNames,
+  FormInputName,
+  FormInputPath,
+  FormValidationOptions,
+  FormValue,
+  FormValues,
+} from '@navigare/core'
+import { ComponentProps, ComponentType, ReactElement } from 'react'
+
+export type App = {
+  root: ReactElement
+  page: Page
+  id: string
+  router: Router<ComponentType<any>>
+}
+
+export type Options = {
+  id?: string
+  setup: Setup
+} & Omit<RouterOptions<ComponentType<any>>, 'base' | 'initialPage'>
+
+export type Setup = (options: {
+  Root: typeof Root
+  props: Omit<ComponentProps<typeof Root>, 'children'>
+  router: Router<ComponentType<any>>
+  initialPage: Page
+}) => ReactElement
+
+// Router
+export type RouterControl = {
+  location: RouterLocation
+  parameters: Record<string, RouteParameter>
+  route: Route<RouteName>
+  page: Page
+  previousPage: Page | undefined
+  latestPage: Page
+  pages: Page[]
+  layout: string | null
+  fragment: FragmentControl
+  fragments: Fragments
+  processing: boolean
+  visit(
+    routable: Routable,
+    options?: Exclude<VisitOptions, 'method' | 'data'>,
+  ): Promise<Visit>
+  get(
+    routable: Routable,
+    data?: VisitData,
+    options?: Exclude<VisitOptions, 'method' | 'data'>,
+  ): Promise<Visit>
+  post(
+    routable: Routable,
+    data?: VisitData,
+    options?: Exclude<VisitOptions, 'method' | 'data'>,
+  ): Promise<Visit>
+  put(
+    routable: Routable,
+    data?: VisitData,
+    options?: Exclude<VisitOptions, 'method' | 'data'>,
+  ): Promise<Visit>
+  patch(
+    routable: Routable,
+    data?: VisitData,
+    options?: Exclude<VisitOptions, 'method' | 'data'>,
+  ): Promise<Visit>
+  delete(
+    routable: Routable,
+    options?: Exclude<VisitOptions, 'method'>,
+  ): Promise<Visit>
+  reload(
+    options?: Exclude<VisitOptions, 'preserveScroll' | 'preserveState'>,
+  ): Promise<Visit>
+  back(fallback?: Routable): Promise<void>
+  prefetch(routable: Routable, options?: VisitPrefetchOptions): Promise<void>
+  poll(interval: number, options?: PollOptions): () => void
+  match(
+    comparableRoute:
+      | Routable
+      | PartialRoute<RouteName>
+      | string
+      | [Routable, ...(PartialRoute | string)[]]
+      | MatchableRoute[],
+    route?: Route<RouteName>,
+  ): boolean
+  on<TEventName extends RouterEventNames>(
+    name: TEventName,
+    listener: RouterEventListener<TEventName>,
+  ): () => void
+  off<TEventName extends RouterEventNames>(
+    name: TEventName,
+    listener: RouterEventListener<TEventName>,
+  ): void
+  resolve(routable: Routable): string
+  instance: Router<ComponentType<any>>
+  generateErrorLink: (
+    fileName: string | null,
+    row: number | null,
+    column: number | null,
+    url: string,
+  ) => string | null
+  reportError: (error: unknown) => void
+}
+
+// Fragments
+export type FragmentControl = {
+  name: string | null
+  properties: Page['properties'] & Record<string, any>
+  rawRoute: Page['rawRoute']
+  parameters: Page['parameters']
+  defaults: Page['defaults']
+  location: Page['location']
+  visit: Page['visit']
+  key: string | null
+  pending: boolean
+}
+
+// Forms
+export type {
+  FormError,
+  FormErrors,
+  FormEvents,
+  FormEventNames,
+  FormEventDetails,
+  FormEventResult,
+  FormEvent,
+  FormEventListener,
+  FormInputName,
+  FormInputPath,
+  FormValue,
+  FormValues,
+  FormValidationOptions,
+} from '@navigare/core'
+
+export type FormSubmitOptions = Partial<{
+  trigger: FormTrigger
+  background: boolean
+  optimistic: (
+    properties: Page['properties'],
+    values: FormValues,
+  ) => Partial<Page['properties']>
+  events: Partial<{
+    [TEventName in FormEventNames]: FormEventListener<TEventName>
+  }>
+}>
+
+export type FormBaseOptions<TValues extends FormValues = FormValues> = Partial<{
+  disabled: boolean
+  remember: boolean
+  reset: boolean
+  transform: (values: TValues) => any | Promise<any>
+  events: Partial<{
+    [TEventName in FormEventNames]: FormEventListener<TEventName>
+  }>
+  validation: FormValidationOptions
+}>
+
+export type FormVisitOptions<TValues extends FormValues = FormValues> =
+  FormBaseOptions<TValues> & Omit<VisitOptions, 'events'>
+
+export type FormOptions<
+  TValues extends FormValues = FormValues,
+  TRoutable extends Routable = never,
+> = [TRoutable] extends [never]
+  ? FormBaseOptions<TValues>
+  : FormVisitOptions<TValues>
+
+export type FormTrigger = Element | null
+
+export interface FormControl<TValues extends FormValues = FormValues> {
+  name: string
+
+  options: {
+    validation: FormValidationOptions
+  }
+
+  values: TValues
+
+  initialValues: TValues
+
+  routable: Routable | null
+
+  errors: FormErrors
+
+  dirty: boolean
+
+  focused: FormInputName | null
+
+  successful: boolean | undefined
+
+  recentlySuccessful: boolean | undefined
+
+  queued: boolean
+
+  blocked: boolean
+
+  blockers: Record<string, boolean>
+
+  processing: boolean
+
+  disabled: boolean
+
+  valid: boolean
+
+  progress: VisitProgress | null
+
+  trigger: FormTrigger | null
+
+  submit(options?: FormSubmitOptions): Promise<Visit | undefined>
+
+  validate(path: FormInputName | FormInputPath): Promise<void>
+
+  reset(paths?: FormInputPath[]): void
+
+  clearValues(paths?: FormInputPath[]): void
+
+  setValue(path: FormInputName | FormInputPath, value: FormValue): void
+
+  setValues(values: Partial<TValues>): void
+
+  block(path: FormInputName | FormInputPath): void
+
+  unblock(path: FormInputName | FormInputPath): void
+
+  focus(path: FormInputName | FormInputPath): void
+
+  blur(path: FormInputName | FormInputPath): void
+
+  enable(): void
+
+  disable(): void
+
+  getInputId(path: FormInputName | FormInputPath): string
+
+  getInputName(path: FormInputName | FormInputPath): string
+
+  on<TEventName extends FormEventNames>(
+    name: TEventName,
+    listener: FormEventListener<TEventName>,
+  ): () => void
+
+  off<TEventName extends FormEventNames>(
+    name: TEventName,
+    listener: FormEventListener<TEventName>,
+  ): void
+
+  setErrors(errors: FormErrors): void
+
+  setError(path: FormInputName | FormInputPath, error?: FormError): void
+
+  clearErrors(paths?: (FormInputName | FormInputPath)[]): void
+}
+
+// Inputs
+export type InputControl = {
+  form: FormControl
+  path: FormInputPath
+  id: string
+  name: string
+  value: FormValue
+  errorMessage: string
+  nestedErrors: FormErrors
+  validating: boolean
+  focused: boolean
+  touched: boolean
+  setValue: (value: FormValue) => void
+  validate: () => Promise<void>
+  focus: () => void
+  blur: () => void
+  submit: (options?: FormSubmitOptions) => void
+  handleInput: (event?: Event) => void
+  handleChange: (event?: Event) => void
+}
+
+// Prop types
+export type MatchingRoutePropType =
+  | Routable
+  | [Routable, ...(PartialRoute | string)[]]
@@ -0,0 +1,13 @@
+import { Fragment, isString } from '@navigare/core'
+
+export function getFragmentKey(fragment: Fragment): string {
+  return [fragment.page?.visit.id, fragment.component.id].join('-')
+}
+
+export function classNames(
+  ...values: Array<string | false | null | undefined>
+): string | undefined {
+  const className = values.filter(isString).filter(Boolean).join(' ')
+
+  return className || undefined
+}
@@ -0,0 +1,114 @@
+import { createApp, Link, useFragment, usePage } from '../src'
+import { cleanup, click, createPage, createRawRoute, render } from './fixtures'
+import { Route } from '@navigare/core'
+import { screen } from '@testing-library/react'
+import { ComponentType, createElement } from 'react'
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+
+const Home = ({ title }: { title: string }) => {
+  const page = usePage()
+  const fragment = useFragment()
+
+  return createElement(
+    'div',
+    null,
+    createElement('h1', null, title),
+    createElement('span', { 'data-testid': 'fragment' }, fragment.name),
+    createElement('span', { 'data-testid': 'href' }, page.location.href),
+    createElement(
+      Link,
+      {
+        route: new Route(
+          createRawRoute('posts', 'posts'),
+          {},
+          {
+            absolute: true,
+          },
+        ),
+      },
+      'Posts',
+    ),
+  )
+}
+
+const mount = async (component: ComponentType<any> = Home) => {
+  const app = await createApp({
+    resolveComponentModule: async () => component,
+    setup: ({ Root, props }) => createElement(Root, props),
+  })(
+    createPage('Home', {
+      title: 'Welcome',
+    }),
+  )
+
+  render(app.root)
+
+  return app
+}
+
+describe('components', () => {
+  beforeAll(() => {
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('renders the fragments of the initial page', async () => {
+    await mount()
+
+    expect(screen.getByRole('heading').textContent).toEqual('Welcome')
+    expect(screen.getByTestId('fragment').textContent).toEqual('default')
+    expect(screen.getByTestId('href').textContent).toEqual(
+      'https://navigare.test/',
+    )
+  })
+
+  it('intercepts link clicks and visits the route', async () => {
+    const { router } = await mount()
+    const visit = vi.spyOn(router, 'visit').mockResolvedValue(undefined as any)
+    const link = screen.getByText('Posts')
+
+    expect(link.getAttribute('href')).toEqual('https://navigare.test/posts')
+
+    click(link)
+
+    expect(visit).toHaveBeenCalledTimes(1)
+    expect(visit.mock.calls[0][0]).toBeInstanceOf(Route)
+  })
+
+  it('ignores modified link clicks', async () => {
+    const { router } = await mount()
+    const visit = vi.spyOn(router, 'visit').mockResolvedValue(undefined as any)
+
+    click(screen.getByText('Posts'), {
+      metaKey: true,
+    })
+
+    expect(visit).not.toHaveBeenCalled()
+  })
+
+  it('renders a disabled link for invalid routes', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+    await mount(() => {
+      return createElement(
+        Link,
+        {
+          route: new Route(createRawRoute('posts.show', 'posts/{post}'), {}),
+        },
+        'Post',
+      )
+    })
+
+    const link = screen.getByText('Post')
+
+    expect(link.getAttribute('href')).toBeNull()
+    expect(link.getAttribute('data-invalid')).toEqual('true')
+    expect(link.getAttribute('title')).toEqual(
+      '"post" parameter is required for route "posts.show"',
+    )
+    expect(warn).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,156 @@
+import { Page, RawRoute, RouteMethod } from '@navigare/core'
+import {
+  act,
+  ComponentType,
+  createElement,
+  ReactElement,
+  ReactNode,
+} from 'react'
+import { createRoot, Root } from 'react-dom/client'
+
+// Render via `act` of React itself as the one of `react-dom/test-utils` is
+// deprecated
+Object.assign(globalThis, {
+  IS_REACT_ACT_ENVIRONMENT: true,
+})
+
+const mounted: { container: HTMLElement; root: Root }[] = []
+
+export const render = (element: ReactElement) => {
+  const container = document.body.appendChild(document.createElement('div'))
+  const root = createRoot(container)
+  mounted.push({
+    container,
+    root,
+  })
+
+  act(() => {
+    root.render(element)
+  })
+
+  return {
+    container,
+  }
+}
+
+export const renderHook = <TResult>(
+  callback: () => TResult,
+  {
+    wrapper: Wrapper,
+  }: {
+    wrapper: ComponentType<{ children: ReactNode }>
+  },
+) => {
+  const result = {} as { current: TResult }
+  const Hook = () => {
+    result.current = callback()
+
+    return null
+  }
+
+  render(createElement(Wrapper, null, createElement(Hook)))
+
+  return {
+    result,
+  }
+}
+
+export const click = (element: Element, init: MouseEventInit = {}) => {
+  const event = new MouseEvent('click', {
+    bubbles: true,
+    cancelable: true,
+    button: 0,
+    ...init,
+  })
+
+  // jsdom does not derive the legacy `which` from the pressed button
+  Object.defineProperty(event, 'which', {
+    value: 1,
+  })
+
+  act(() => {
+    element.dispatchEvent(event)
+  })
+}
+
+export const cleanup = () => {
+  for (const { container, root } of mounted.splice(0)) {
+    act(() => {
+      root.unmount()
+    })
+    container.remove()
+  }
+}
+
+export const createRawRoute = (name: string, uri: string): RawRoute => {
+  return {
+    name: name as RawRoute['name'],
+    uri,
+    methods: ['GET', 'HEAD'],
+  }
+}
+
+export const createPage = (
+  component: string,
+  properties: Record<string, any> = {},
+): Page => {
+  const location = new URL('https://navigare.test/')
+  const page: Omit<Page, 'fragments'> = {
+    visit: {
+      id: 'initial',
+      fragmentName: undefined,
+      method: RouteMethod.GET,
+      data: {},
+      replace: false,
+      background: false,
+      preserveScroll: false,
+      preserveState: false,
+      preserveURL: false,
+      properties: [],
+      headers: {},
+      errorBag: null,
+      forceFormData: false,
+      queryStringArrayFormat: 'brackets',
+      cache: false,
+      retry: undefined,
+      attempts: 0,
+      location,
+      completed: true,
+      cancelled: false,
+      interrupted: false,
+    } as unknown as Page['visit'],
+    csrf: null,
+    properties: {
+      errors: {},
+      ...properties,
+    } as Page['properties'],
+    rawRoute: createRawRoute('home', '/'),
+    location,
+    defaults: {},
+    parameters: {},
+    version: null,
+    layout: null,
+    timestamp: 0,
+    obsolete: false,
+    scrollRegions: [],
+    rememberedState: {},
+  }
+
+  return {
+    ...page,
+    fragments: {
+      default: [
+        {
+          name: 'default',
+          component: {
+            id: component,
+            path: `${component}.js`,
+          },
+          properties: {},
+          page,
+          fallback: false,
+        },
+      ],
+    },
+  }
+}
@@ -0,0 +1,97 @@
+import { Root, useForm } from '../src'
+import { cleanup, createPage, renderHook } from './fixtures'
+import { Router } from '@navigare/core'
+import { act, ComponentType, createElement, ReactNode } from 'react'
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+
+const createWrapper = () => {
+  const router = new Router<ComponentType<any>>({
+    initialPage: createPage('Home'),
+    base: '/',
+  })
+
+  return ({ children }: { children: ReactNode }) => {
+    return createElement(Root, {
+      router,
+      layout: null,
+      children: () => children,
+    })
+  }
+}
+
+describe('useForm', () => {
+  beforeAll(() => {
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('tracks values and dirty state', () => {
+    const { result } = renderHook(
+      () => useForm('post', { title: 'Draft' }, null),
+      {
+        wrapper: createWrapper(),
+      },
+    )
+
+    expect(result.current.values).toEqual({ title: 'Draft' })
+    expect(result.current.dirty).toBe(false)
+
+    act(() => {
+      result.current.setValue('title', 'Published')
+    })
+
+    expect(result.current.values).toEqual({ title: 'Published' })
+    expect(result.current.dirty).toBe(true)
+
+    act(() => {
+      result.current.reset()
+    })
+
+    expect(result.current.values).toEqual({ title: 'Draft' })
+    expect(result.current.dirty).toBe(false)
+  })
+
+  it('submits via callback', async () => {
+    const submitted: unknown[] = []
+    const { result } = renderHook(
+      () =>
+        useForm('post', { title: 'Draft' }, (values) => {
+          submitted.push(values)
+        }),
+      {
+        wrapper: createWrapper(),
+      },
+    )
+
+    await act(async () => {
+      await result.current.submit()
+    })
+
+    expect(submitted).toEqual([{ title: 'Draft' }])
+    expect(result.current.successful).toBe(true)
+    expect(result.current.processing).toBe(false)
+  })
+
+  it('tracks errors', () => {
+    const { result } = renderHook(() => useForm('post', { title: '' }, null), {
+      wrapper: createWrapper(),
+    })
+
+    act(() => {
+      result.current.setErrors({
+        title: 'The title is required.',
+      })
+    })
+
+    expect(result.current.valid).toBe(false)
+
+    act(() => {
+      result.current.clearErrors()
+    })
+
+    expect(result.current.valid).toBe(true)
+  })
+})
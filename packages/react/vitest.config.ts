@@ -0,0 +1,14 @@
+/// <reference types="vitest" />
+import { defineConfig } from 'vite'
+
+export default defineConfig({
+  root: __dirname,
+  test: {
+    environment: 'jsdom',
+    environmentOptions: {
+      jsdom: {
+        url: 'https://navigare.test/',
+      },
+    },
+  },
+})
@@ -0,0 +1,3 @@
+module.exports = require('../../release.config.cjs')(
+  'yarn npm publish --access public',
+)
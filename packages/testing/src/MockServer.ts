@@ -0,0 +1,381 @@
+import {
+  MockErrorsResult,
+  MockHandler,
+  MockLocationResult,
+  MockPageResult,
+  MockRedirectResult,
+  MockRequest,
+  MockResponseResult,
+  MockResult,
+  MockServerOptions,
+} from './types'
+import {
+  isFunction,
+  mapRouteMethod,
+  Page,
+  PageErrors,
+  Properties,
+  RawRouteMethod,
+  RawRoutes,
+  RouteMethod,
+  RouteRegistry,
+  Transport,
+  TransportError,
+  TransportRequest,
+  TransportResponse,
+  wait,
+} from '@navigare/core'
+
+export default class MockServer<TRawRoutes extends RawRoutes = RawRoutes> {
+  public options: MockServerOptions<TRawRoutes>
+
+  public version: string | null
+
+  public requests: TransportRequest[] = []
+
+  public transport: Transport
+
+  protected registry: RouteRegistry
+
+  protected handlers = new Map<string, MockHandler>()
+
+  protected previousHref: string | null = null
+
+  protected flashedErrors: PageErrors | null = null
+
+  public constructor(options: MockServerOptions<TRawRoutes>) {
+    this.options = options
+    this.version = options.version ?? null
+    this.registry = new RouteRegistry(options.routes)
+    this.transport = {
+      request: (request) => {
+        return this.request(request)
+      },
+    }
+  }
+
+  protected get origin(): string {
+    return this.options.origin ?? window.location.origin
+  }
+
+  /**
+   * Register the handler that answers requests to the given route
+   */
+  public on(name: keyof TRawRoutes & string, handler: MockHandler): () => void {
+    this.handlers.set(name, handler)
+
+    return () => {
+      this.handlers.delete(name)
+    }
+  }
+
+  public render(
+    component: string,
+    properties: Properties = {},
+    options: { layout?: string | null } = {},
+  ): MockPageResult {
+    return {
+      type: 'page',
+      component,
+      properties,
+      layout: options.layout ?? null,
+    }
+  }
+
+  /**
+   * Redirect like Laravel does via `redirect()`, i.e. the new location is
+   * requested right away as if the browser followed the redirect
+   */
+  public redirect(href: string): MockRedirectResult {
+    return {
+      type: 'redirect',
+      href,
+    }
+  }
+
+  /**
+   * Redirect like Laravel does via `Navigare::location()` which forces the
+   * client to leave the app
+   */
+  public location(href: string): MockLocationResult {
+    return {
+      type: 'location',
+      href,
+    }
+  }
+
+  /**
+   * Reject the request due to validation errors which are either returned
+   * directly to precognitive requests or flashed to the previous page
+   */
+  public errors(errors: Record<string, string | string[]>): MockErrorsResult {
+    return {
+      type: 'errors',
+      errors: Object.fromEntries(
+        Object.entries(errors).map(([key, value]) => {
+          return [key, Array.isArray(value) ? value : [value]]
+        }),
+      ),
+    }
+  }
+
+  public response(
+    status: number,
+    data: unknown = '',
+    headers: Record<string, string> = {},
+  ): MockResponseResult {
+    return {
+      type: 'response',
+      status,
+      headers,
+      data,
+    }
+  }
+
+  /**
+   * Create the page that is passed to the router as `initialPage`
+   */
+  public async createInitialPage(href = '/'): Promise<Page> {
+    const response = await this.request({
+      method: RouteMethod.GET,
+      url: new URL(href, this.origin).href,
+    })
+
+    return response.data as Page
+  }
+
+  public async request(request: TransportRequest): Promise<TransportResponse> {
+    this.requests.push(request)
+
+    if (this.options.latency) {
+      await wait(this.options.latency)
+    }
+
+    if (request.signal?.aborted) {
+      throw new TransportError('Request was cancelled', request, {
+        cancelled: true,
+      })
+    }
+
+    const response = await this.handle(request)
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new TransportError(
+        `Request failed with status code ${response.status}`,
+        request,
+        {
+          response,
+        },
+      )
+    }
+
+    return response
+  }
+
+  protected async handle(
+    request: TransportRequest,
+  ): Promise<TransportResponse> {
+    const url = new URL(request.url, this.origin)
+    const headers = Object.fromEntries(
+      Object.entries(request.headers ?? {})
+        .filter(([, value]) => value !== null && value !== undefined)
+        .map(([name, value]) => {
+          return [
+            name.toLowerCase(),
+            Array.isArray(value) ? value.join(',') : String(value),
+          ]
+        }),
+    )
+    const data =
+      request.data instanceof FormData
+        ? Object.fromEntries(request.data.entries())
+        : { ...request.data }
+
+    // Files are always sent via POST so the actual method is spoofed
+    const method = data._method
+      ? mapRouteMethod(data._method as RawRouteMethod)
+      : request.method
+    delete data._method
+
+    // Outdated clients must reload the page to get the latest assets
+    if (
+      headers['x-navigare'] &&
+      method === RouteMethod.GET &&
+      (headers['x-navigare-version'] ?? '') !== (this.version ?? '')
+    ) {
+      const response = await this.createResponse(url, this.location(url.href))
+      response.headers['x-navigare-version'] = this.version ?? ''
+
+      return response
+    }
+
+    const match = this.registry.parse(url, this.origin, {
+      method,
+    })
+    const handler = match ? this.handlers.get(match.route.name) : undefined
+
+    if (!match || !handler) {
+      return this.createResponse(url, this.response(404, 'Not Found'))
+    }
+
+    const mockRequest: MockRequest = {
+      method,
+      url,
+      rawRoute: this.registry.get(match.route.name)!,
+      parameters: match.parameters,
+      query: match.query,
+      data,
+      headers,
+      precognitive: !!headers['precognition'],
+    }
+
+    return this.createResponse(url, await handler(mockRequest), mockRequest)
+  }
+
+  protected async createResponse(
+    url: URL,
+    result: MockResult,
+    request?: MockRequest,
+  ): Promise<TransportResponse> {
+    switch (result.type) {
+      case 'page': {
+        // Precognitive requests only validate and never render
+        if (request?.precognitive) {
+          return {
+            status: 204,
+            headers: {
+              precognition: 'true',
+            },
+            data: '',
+            url: url.href,
+          }
+        }
+
+        this.previousHref = url.href
+
+        return {
+          status: 200,
+          headers: {
+            'x-navigare': 'true',
+          },
+          data: this.createPage(url, result, request!),
+          url: url.href,
+        }
+      }
+
+      case 'redirect':
+        return await this.handle({
+          method: RouteMethod.GET,
+          url: new URL(result.href, url).href,
+          headers: Object.fromEntries(
+            Object.entries(request?.headers ?? {}).filter(([name]) => {
+              return name !== 'precognition'
+            }),
+          ),
+        })
+
+      case 'location':
+        return {
+          status: 409,
+          headers: {
+            'x-navigare-location': new URL(result.href, url).href,
+          },
+          data: '',
+          url: url.href,
+        }
+
+      case 'errors': {
+        if (request?.precognitive) {
+          return {
+            status: 422,
+            headers: {
+              precognition: 'true',
+            },
+            data: {
+              message: 'The given data was invalid.',
+              errors: result.errors,
+            },
+            url: url.href,
+          }
+        }
+
+        // Laravel flashes the errors to the session and redirects back
+        this.flashedErrors = result.errors
+
+        return await this.createResponse(
+          url,
+          this.redirect(this.previousHref ?? '/'),
+          request,
+        )
+      }
+
+      case 'response':
+        return {
+          status: result.status,
+          headers: Object.fromEntries(
+            Object.entries(result.headers).map(([name, value]) => {
+              return [name.toLowerCase(), value]
+            }),
+          ),
+          data: result.data,
+          url: url.href,
+        }
+    }
+  }
+
+  protected createPage(
+    url: URL,
+    result: MockPageResult,
+    request: MockRequest,
+  ): Page {
+    const { resolveComponentPath = (component) => `${component}.js` } =
+      this.options
+    const shared = isFunction(this.options.shared)
+      ? this.options.shared(request)
+      : this.options.shared
+    const errors = this.flashedErrors ?? {}
+    this.flashedErrors = null
+
+    return {
+      fragments: {
+        default: [
+          {
+            name: 'default',
+            component: {
+              id: result.component,
+              path: resolveComponentPath(result.component),
+            },
+            properties: result.properties,
+            fallback: false,
+          },
+        ],
+      },
+      properties: {
+        ...shared,
+        __errors: errors,
+        __flash: {},
+      },
+      defaults: {},
+      layout: result.layout,
+      version: this.version,
+      rawRoute: request.rawRoute,
+      location: {
+        href: url.href,
+        host: url.host,
+        hostname: url.hostname,
+        origin: url.origin,
+        pathname: url.pathname,
+        port: url.port,
+        protocol: url.protocol,
+        search: url.search,
+        hash: '',
+      },
+      parameters: {
+        ...request.query,
+        ...request.parameters,
+      },
+      csrf: null,
+      timestamp: Date.now(),
+    } as unknown as Page
+  }
+}
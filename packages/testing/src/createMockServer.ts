@@ -0,0 +1,9 @@
+import MockServer from './MockServer'
+import { MockServerOptions } from './types'
+import { RawRoutes } from '@navigare/core'
+
+export default function createMockServer<TRawRoutes extends RawRoutes>(
+  options: MockServerOptions<TRawRoutes>,
+): MockServer<TRawRoutes> {
+  return new MockServer(options)
+}
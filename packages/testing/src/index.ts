@@ -0,0 +1,11 @@
+export {
+  default as createNavigareMockServer,
+  default as createMockServer,
+} from './createMockServer'
+
+export {
+  default as NavigareMockServer,
+  default as MockServer,
+} from './MockServer'
+
+export * from './types'
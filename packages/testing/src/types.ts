@@ -0,0 +1,67 @@
+import {
+  PageErrors,
+  Properties,
+  RawRoute,
+  RawRoutes,
+  RouteMethod,
+} from '@navigare/core'
+
+export type MockServerOptions<TRawRoutes extends RawRoutes = RawRoutes> = {
+  routes: TRawRoutes
+  origin?: string
+  version?: string | null
+  latency?: number
+  shared?: Properties | ((request: MockRequest) => Properties)
+  resolveComponentPath?: (component: string) => string
+}
+
+export type MockRequest = {
+  method: RouteMethod
+  url: URL
+  rawRoute: RawRoute
+  parameters: Record<string, string>
+  query: Record<string, any>
+  data: Record<string, any>
+  headers: Record<string, string>
+  precognitive: boolean
+}
+
+export type MockHandler = (
+  request: MockRequest,
+) => MockResult | Promise<MockResult>
+
+export type MockPageResult = {
+  type: 'page'
+  component: string
+  properties: Properties
+  layout: string | null
+}
+
+export type MockRedirectResult = {
+  type: 'redirect'
+  href: string
+}
+
+export type MockLocationResult = {
+  type: 'location'
+  href: string
+}
+
+export type MockErrorsResult = {
+  type: 'errors'
+  errors: PageErrors
+}
+
+export type MockResponseResult = {
+  type: 'response'
+  status: number
+  headers: Record<string, string>
+  data: unknown
+}
+
+export type MockResult =
+  | MockPageResult
+  | MockRedirectResult
+  | MockLocationResult
+  | MockErrorsResult
+  | MockResponseResult
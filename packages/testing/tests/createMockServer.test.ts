@@ -0,0 +1,177 @@
+import { createMockServer } from '../src'
+import { RawRoute, RouteMethod, Router, TransportError } from '@navigare/core'
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+
+const createRawRoute = (
+  name: string,
+  uri: string,
+  methods: RawRoute['methods'] = ['GET', 'HEAD'],
+): RawRoute => {
+  return {
+    name: name as RawRoute['name'],
+    uri,
+    methods,
+  }
+}
+
+const routes = {
+  home: createRawRoute('home', ''),
+  'posts.index': createRawRoute('posts.index', 'posts'),
+  'posts.show': createRawRoute('posts.show', 'posts/{post}'),
+  'posts.store': createRawRoute('posts.store', 'posts', ['POST']),
+}
+
+const createServer = () => {
+  const server = createMockServer({
+    routes,
+    version: '1',
+  })
+
+  server.on('home', () => server.render('Home'))
+  server.on('posts.index', () => {
+    return server.render('posts/Index', {
+      posts: [{ id: 1 }],
+    })
+  })
+  server.on('posts.show', (request) => {
+    return server.render('posts/Show', {
+      post: { id: Number(request.parameters.post) },
+    })
+  })
+  server.on('posts.store', (request) => {
+    if (!request.data.title) {
+      return server.errors({
+        title: 'The title field is required.',
+      })
+    }
+
+    return server.redirect('/posts/2')
+  })
+
+  return server
+}
+
+const createRouter = async (server: ReturnType<typeof createServer>) => {
+  return new Router({
+    initialPage: await server.createInitialPage('/'),
+    base: '/',
+    transport: server.transport,
+    resolveComponentModule: async () => ({}),
+  })
+}
+
+describe('createMockServer', () => {
+  beforeAll(() => {
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined)
+  })
+
+  it('renders pages of routes', async () => {
+    const server = createServer()
+    const router = await createRouter(server)
+
+    expect(router.page.rawRoute.name).toEqual('home')
+
+    await router.visit('/posts/5')
+
+    expect(router.location.pathname).toEqual('/posts/5')
+    expect(router.page.rawRoute.name).toEqual('posts.show')
+    expect(router.page.fragments.default?.[0]?.component.id).toEqual(
+      'posts/Show',
+    )
+    expect(router.page.fragments.default?.[0]?.properties).toEqual({
+      post: { id: 5 },
+    })
+  })
+
+  it('follows redirects', async () => {
+    const server = createServer()
+    const router = await createRouter(server)
+
+    await router.visit('/posts', {
+      method: RouteMethod.POST,
+      data: {
+        title: 'Hello',
+      },
+    })
+
+    expect(router.location.pathname).toEqual('/posts/2')
+    expect(server.requests).toHaveLength(2)
+  })
+
+  it('flashes errors to the previous page', async () => {
+    const server = createServer()
+    const router = await createRouter(server)
+    const error = vi.fn()
+    router.on('error', (event) => {
+      error(event.detail.errors)
+    })
+
+    await router.visit('/posts', {
+      method: RouteMethod.POST,
+      data: {
+        title: '',
+      },
+    })
+
+    expect(router.location.pathname).toEqual('/')
+    expect(error).toHaveBeenCalledWith({
+      title: ['The title field is required.'],
+    })
+  })
+
+  it('responds to precognitive requests with 422', async () => {
+    const server = createServer()
+
+    const error = await server.transport
+      .request({
+        method: RouteMethod.POST,
+        url: '/posts',
+        data: {},
+        headers: {
+          Precognition: true,
+        },
+      })
+      .catch((error) => error)
+
+    expect(error).toBeInstanceOf(TransportError)
+    expect(error.response.status).toEqual(422)
+    expect(error.response.data.errors).toEqual({
+      title: ['The title field is required.'],
+    })
+  })
+
+  it('answers outdated versions with 409', async () => {
+    const server = createServer()
+    server.version = '2'
+
+    const error = await server.transport
+      .request({
+        method: RouteMethod.GET,
+        url: '/posts',
+        headers: {
+          'X-Navigare': true,
+          'X-Navigare-Version': '1',
+        },
+      })
+      .catch((error) => error)
+
+    expect(error.response.status).toEqual(409)
+    expect(error.response.headers['x-navigare-location']).toEqual(
+      `${window.location.origin}/posts`,
+    )
+    expect(error.response.headers['x-navigare-version']).toEqual('2')
+  })
+
+  it('answers unknown routes with 404', async () => {
+    const server = createServer()
+
+    const error = await server.transport
+      .request({
+        method: RouteMethod.GET,
+        url: '/unknown',
+      })
+      .catch((error) => error)
+
+    expect(error.response.status).toEqual(404)
+  })
+})
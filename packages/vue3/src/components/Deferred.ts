@@ -1,5 +1,14 @@
+import { injectRouterContext } from '../contexts/injectRouterContext'
 import { DeferredProperty, isDeferred } from '@navigare/core'
-import { defineComponent, PropType } from 'vue'
+import {
+  defineComponent,
+  h,
+  onMounted,
+  onUnmounted,
+  PropType,
+  ref,
+  watch,
+} from 'vue'
 
 export default defineComponent({
   name: 'Deferred',
@@ -14,12 +23,73 @@ export default defineComponent({
   },
 
   setup(props, { slots }) {
+    const { router } = injectRouterContext()
+    const element = ref<HTMLElement | null>(null)
+
+    const load = () => {
+      if (isDeferred(props.value) && props.value.__key) {
+        router.loadDeferred([props.value.__key])
+      }
+    }
+
+    // Lazy properties are only loaded once they are scrolled into view
+    let observer: IntersectionObserver | null = null
+    onMounted(() => {
+      if (!('IntersectionObserver' in window)) {
+        return
+      }
+
+      observer = new IntersectionObserver((entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          observer?.disconnect()
+          load()
+        }
+      })
+
+      watch(
+        element,
+        (currentElement) => {
+          observer?.disconnect()
+
+          if (currentElement) {
+            observer?.observe(currentElement)
+          }
+        },
+        {
+          immediate: true,
+        },
+      )
+    })
+    onUnmounted(() => {
+      observer?.disconnect()
+    })
+
     return () => {
-      if (isDeferred(props.value)) {
-        return slots.fallback?.()
+      const { value } = props
+
+      if (!isDeferred(value)) {
+        return slots.default?.()
+      }
+
+      if (value.__failed) {
+        return (
+          slots.error?.({
+            retry: load,
+          }) ?? slots.fallback?.()
+        )
+      }
+
+      if (value.__lazy && !value.__requested) {
+        return h(
+          'div',
+          {
+            ref: element,
+          },
+          slots.fallback?.(),
+        )
       }
 
-      return slots.default?.()
+      return slots.fallback?.()
     }
   },
 })
@@ -7,8 +7,11 @@ import {
   defineAsyncComponent,
   DefineComponent,
   defineComponent,
+  getCurrentInstance,
   h,
   markRaw,
+  onMounted,
+  onUnmounted,
   PropType,
   reactive,
   ref,
@@ -71,6 +74,24 @@ export default defineComponent({
     })
     const error = ref<Error | null>(null)
 
+    // Let the router move the focus into the fragment after navigating
+    const instance = getCurrentInstance()
+    let unregister: (() => void) | null = null
+    onMounted(() => {
+      const element = instance?.proxy?.$el
+
+      if (element instanceof HTMLElement) {
+        unregister =
+          router.instance.accessibility?.registerFragment(
+            props.name,
+            element,
+          ) ?? null
+      }
+    })
+    onUnmounted(() => {
+      unregister?.()
+    })
+
     // Expose control
     expose({
       error,
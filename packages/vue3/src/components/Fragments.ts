@@ -3,8 +3,14 @@ import useRouter from './../compositions/useRouter'
 import { FragmentContext } from './../contexts/provideFragmentContext'
 import { ContextOf } from './../types'
 import FragmentVue from './Fragment'
-import { isDefined, isNotNull, Fragment, castArray } from '@navigare/core'
-import { computed, VNode, defineComponent, h } from 'vue'
+import {
+  isDefined,
+  isNotNull,
+  Fragment,
+  castArray,
+  supportsViewTransitions,
+} from '@navigare/core'
+import { computed, VNode, defineComponent, h, TransitionGroup } from 'vue'
 
 export default defineComponent({
   name: 'Fragments',
@@ -25,6 +31,13 @@ export default defineComponent({
         .filter(isDefined)
         .filter(isNotNull)
     })
+    const transition = computed(() => {
+      if (!router.instance.options.transitions) {
+        return null
+      }
+
+      return router.instance.options.fragments?.[props.name]?.transition ?? null
+    })
 
     return () => {
       const { default: defaultSlot, fragment: fragmentSlot } = slots
@@ -72,7 +85,31 @@ export default defineComponent({
         })
       }
 
-      return fragments.value.map(renderFragment)
+      const renderedFragments = fragments.value.map(renderFragment)
+
+      if (!transition.value) {
+        return renderedFragments
+      }
+
+      // View transitions capture elements by name, otherwise the fragments
+      // are animated via transition classes like `page-forward-enter-active`
+      return h(
+        'div',
+        {
+          style: {
+            viewTransitionName: transition.value,
+          },
+        },
+        supportsViewTransitions()
+          ? renderedFragments
+          : h(
+              TransitionGroup,
+              {
+                name: `${transition.value}-${router.instance.transitionDirection}`,
+              },
+              () => renderedFragments,
+            ),
+      )
     }
   },
 })
@@ -0,0 +1,120 @@
+import { injectRouterContext } from '../contexts/injectRouterContext'
+import {
+  defineComponent,
+  h,
+  onMounted,
+  onUnmounted,
+  PropType,
+  ref,
+  watch,
+} from 'vue'
+
+export default defineComponent({
+  name: 'InfiniteScroll',
+
+  navigare: true,
+
+  props: {
+    as: {
+      type: String,
+      default: 'div',
+    },
+
+    property: {
+      type: String,
+      required: true,
+    },
+
+    page: {
+      type: Number as PropType<number | null>,
+      default: null,
+    },
+
+    parameter: {
+      type: String,
+      default: 'page',
+    },
+
+    rootMargin: {
+      type: String,
+      default: '0px 0px 200px 0px',
+    },
+  },
+
+  setup(props, { slots }) {
+    const { router } = injectRouterContext()
+    const sentinel = ref<HTMLElement | null>(null)
+    const loading = ref(false)
+    let observer: IntersectionObserver | null = null
+
+    const observe = () => {
+      observer?.disconnect()
+
+      if (sentinel.value) {
+        observer?.observe(sentinel.value)
+      }
+    }
+
+    const load = async () => {
+      if (loading.value || props.page === null) {
+        return
+      }
+
+      loading.value = true
+
+      try {
+        // The property of the next page is merged via its merge strategy
+        await router.reload({
+          properties: [router.transformClientPropertyKey(props.property)],
+          data: {
+            [props.parameter]: props.page,
+          },
+          preserveURL: true,
+        })
+      } finally {
+        loading.value = false
+      }
+
+      // Observe again in case the sentinel is still visible
+      observe()
+    }
+
+    onMounted(() => {
+      if (!('IntersectionObserver' in window)) {
+        return
+      }
+
+      observer = new IntersectionObserver(
+        (entries) => {
+          if (entries.some((entry) => entry.isIntersecting)) {
+            load()
+          }
+        },
+        {
+          rootMargin: props.rootMargin,
+        },
+      )
+
+      watch(sentinel, observe, {
+        immediate: true,
+      })
+    })
+    onUnmounted(() => {
+      observer?.disconnect()
+    })
+
+    return () => {
+      return h(props.as, {}, [
+        slots.default?.(),
+        loading.value
+          ? slots.loading?.()
+          : props.page === null
+          ? slots.done?.()
+          : h('div', {
+              ref: sentinel,
+              'aria-hidden': 'true',
+            }),
+      ])
+    }
+  },
+})
@@ -1,4 +1,5 @@
 import useRoutable from '../compositions/useRoutable'
+import { injectRouterContext } from '../contexts/injectRouterContext'
 import { getRoutePropType } from './../utilities'
 import {
   RawRouteMethod,
@@ -13,6 +14,7 @@ import {
   DefineComponent,
   normalizeClass,
   PropType,
+  watch,
 } from 'vue'
 
 export default defineComponent({
@@ -75,6 +77,11 @@ export default defineComponent({
       default: 'brackets',
     },
 
+    prefetch: {
+      type: Boolean,
+      default: false,
+    },
+
     active: {
       type: Boolean,
     },
@@ -105,9 +112,11 @@ export default defineComponent({
   },
 
   setup(props, { slots, attrs, emit }) {
+    const { router } = injectRouterContext()
     const routable = useRoutable(() => props.route, {
       data: () => props.data,
       method: () => props.method,
+      prefetch: () => props.prefetch,
     })
 
     if (props.href) {
@@ -116,6 +125,23 @@ export default defineComponent({
       )
     }
 
+    // Warn once per change instead of on every render
+    watch(
+      () => routable.issues.map(({ message }) => message).join('\n'),
+      (issues) => {
+        if (!issues) {
+          return
+        }
+
+        console.warn(
+          `The route passed to \`Link\` cannot be resolved:\n\n${issues}`,
+        )
+      },
+      {
+        immediate: true,
+      },
+    )
+
     return () => {
       const as =
         props.as ??
@@ -134,12 +160,23 @@ export default defineComponent({
         }
       }
 
+      // Render a disabled link instead of throwing if the route is invalid
+      const invalid = routable.issues.length > 0
+      const issues = routable.issues.map(({ message }) => message).join('\n')
+
       return h(
         as as DefineComponent,
         {
           ...attrs,
           'data-pending': routable.pending,
           'data-active': routable.active,
+          ...(invalid
+            ? {
+                'data-invalid': true,
+                'aria-disabled': true,
+                title: issues,
+              }
+            : {}),
           class: normalizeClass([
             attrs.class,
             routable.active || props.active
@@ -148,11 +185,16 @@ export default defineComponent({
             routable.pending ? props.pendingClass : undefined,
           ]),
           ...routable.getAttributes({
-            disabled: !!attrs.disabled,
+            disabled: !!attrs.disabled || invalid,
 
             events: {
               click(event) {
                 emit('click', event)
+
+                // Focus the link again once the user navigates back
+                if (event.currentTarget instanceof HTMLElement) {
+                  router.accessibility?.rememberTrigger(event.currentTarget)
+                }
               },
               mouseenter(event) {
                 emit('mouseenter', event)
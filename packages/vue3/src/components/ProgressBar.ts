@@ -0,0 +1,137 @@
+import { injectRouterContext } from '../contexts/injectRouterContext'
+import { VisitId } from '@navigare/core'
+import { defineComponent, h, onMounted, onUnmounted, ref } from 'vue'
+
+export default defineComponent({
+  name: 'ProgressBar',
+
+  navigare: true,
+
+  props: {
+    delay: {
+      type: Number,
+      default: 250,
+    },
+
+    color: {
+      type: String,
+      default: '#29D',
+    },
+
+    height: {
+      type: Number,
+      default: 2,
+    },
+  },
+
+  setup(props) {
+    const { router } = injectRouterContext()
+    const visible = ref(false)
+    const percentage = ref(0)
+    const activeVisitIds = new Set<VisitId>()
+    let showTimeout: ReturnType<typeof setTimeout> | undefined
+    let hideTimeout: ReturnType<typeof setTimeout> | undefined
+    let trickleInterval: ReturnType<typeof setInterval> | undefined
+
+    const show = () => {
+      clearTimeout(hideTimeout)
+      visible.value = true
+
+      // Creep towards the end while the server does not report any progress
+      trickleInterval = setInterval(() => {
+        percentage.value += (90 - percentage.value) * 0.05
+      }, 200)
+    }
+    const hide = () => {
+      clearTimeout(showTimeout)
+      clearInterval(trickleInterval)
+
+      if (!visible.value) {
+        return
+      }
+
+      percentage.value = 100
+      hideTimeout = setTimeout(() => {
+        visible.value = false
+        percentage.value = 0
+      }, 300)
+    }
+
+    let removeListeners = () => {}
+    onMounted(() => {
+      const listeners = [
+        router.on('start', (event) => {
+          const { visit } = event.detail
+
+          // Background visits should not draw the attention of users
+          if (visit.background) {
+            return
+          }
+
+          if (activeVisitIds.size === 0) {
+            percentage.value = 0
+            showTimeout = setTimeout(show, props.delay)
+          }
+
+          activeVisitIds.add(visit.id)
+        }),
+
+        router.on('progress', (event) => {
+          const { visit, progress } = event.detail
+
+          if (!activeVisitIds.has(visit.id) || !progress?.percentage) {
+            return
+          }
+
+          // Uploads and downloads share the bar so each covers one half
+          const nextPercentage = progress.download
+            ? 50 + progress.percentage / 2
+            : progress.percentage / 2
+
+          percentage.value = Math.max(percentage.value, nextPercentage)
+        }),
+
+        router.on('finish', (event) => {
+          activeVisitIds.delete(event.detail.visit.id)
+
+          if (activeVisitIds.size === 0) {
+            hide()
+          }
+        }),
+      ]
+
+      removeListeners = () => {
+        listeners.forEach((removeListener) => removeListener())
+      }
+    })
+    onUnmounted(() => {
+      removeListeners()
+      clearTimeout(showTimeout)
+      clearTimeout(hideTimeout)
+      clearInterval(trickleInterval)
+    })
+
+    return () => {
+      return h('div', {
+        role: 'progressbar',
+        'aria-hidden': !visible.value,
+        'aria-valuemin': 0,
+        'aria-valuemax': 100,
+        'aria-valuenow': Math.round(percentage.value),
+        style: {
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          zIndex: 2147483647,
+          width: `${percentage.value}%`,
+          height: `${props.height}px`,
+          background: props.color,
+          boxShadow: `0 0 10px ${props.color}`,
+          opacity: visible.value ? 1 : 0,
+          pointerEvents: 'none',
+          transition: 'width 200ms ease, opacity 300ms ease',
+        },
+      })
+    }
+  },
+})
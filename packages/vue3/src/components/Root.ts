@@ -41,19 +41,54 @@ export default defineComponent({
       props.router.off('navigate', handleNavigate)
     })
 
+    // Announce pages to screen readers via a live region
+    const announcement = ref('')
+    const handleAnnounce: RouterEventListener<'announce'> = (event) => {
+      announcement.value = event.detail.message
+    }
+    props.router.on('announce', handleAnnounce)
+    onUnmounted(() => {
+      props.router.off('announce', handleAnnounce)
+    })
+
     // Provide router context
     provideRouterContext(props.router)
 
     return () => {
-      if (slots.default) {
-        return slots.default?.({
-          layout: layout.value,
-        })
+      const content = slots.default
+        ? slots.default({
+            layout: layout.value,
+          })
+        : h(DefaultLayout, {
+            layout: layout.value,
+          })
+
+      if (!props.router.accessibility) {
+        return content
       }
 
-      return h(DefaultLayout, {
-        layout: layout.value,
-      })
+      return [
+        content,
+        h(
+          'div',
+          {
+            'aria-live': 'polite',
+            'aria-atomic': 'true',
+            style: {
+              position: 'absolute',
+              width: '1px',
+              height: '1px',
+              padding: '0',
+              margin: '-1px',
+              overflow: 'hidden',
+              clip: 'rect(0, 0, 0, 0)',
+              whiteSpace: 'nowrap',
+              border: '0',
+            },
+          },
+          announcement.value,
+        ),
+      ]
     }
   },
 })
@@ -2,7 +2,7 @@ import { injectRouterContext } from '../contexts/injectRouterContext'
 import { FragmentControl } from '../types'
 import { injectFragmentContext } from './../contexts/injectFragmentContext'
 import usePage from './usePage'
-import { computed, reactive } from 'vue'
+import { computed, onMounted, onUnmounted, reactive, ref } from 'vue'
 
 export default function useFragment(): FragmentControl
 export default function useFragment(name: string): Partial<FragmentControl>
@@ -67,6 +67,21 @@ export default function useFragment(
     return context.value?.exposed[key]
   })
 
+  // Track visits of this fragment
+  const fragmentName = name ?? context.value?.name ?? undefined
+  const pending = ref(router.router.isPending(fragmentName))
+  const handleVisit = () => {
+    pending.value = router.router.isPending(fragmentName)
+  }
+  onMounted(() => {
+    router.router.on('start', handleVisit)
+    router.router.on('finish', handleVisit)
+  })
+  onUnmounted(() => {
+    router.router.off('start', handleVisit)
+    router.router.off('finish', handleVisit)
+  })
+
   // Expose again
   const control: FragmentControl = reactive({
     name: name ?? context.value?.name ?? null,
@@ -78,6 +93,7 @@ export default function useFragment(
     properties,
     visit,
     exposed,
+    pending,
   })
 
   return control
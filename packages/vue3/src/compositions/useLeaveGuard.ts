@@ -0,0 +1,40 @@
+import { injectRouterContext } from '../contexts/injectRouterContext'
+import { FormControl, FormValues } from '../types'
+import { RouterGuard, RouterGuardContext } from '@navigare/core'
+import { onMounted, onUnmounted } from 'vue'
+
+export default function useLeaveGuard<TValues extends FormValues>(
+  form: FormControl<TValues>,
+  options: {
+    message?: string
+    confirm?: (context: RouterGuardContext) => boolean | Promise<boolean>
+  } = {},
+): void {
+  const { router } = injectRouterContext()
+  const {
+    message = 'You have unsaved changes. Do you really want to leave?',
+    confirm = () => window.confirm(message),
+  } = options
+
+  const guard: RouterGuard = (context) => {
+    // The form itself is allowed to navigate away, e.g. after submitting
+    if (!form.dirty || form.processing) {
+      return true
+    }
+
+    // Browsers only show their native dialog when the tab is closed
+    if (context.type === 'unload') {
+      return false
+    }
+
+    return confirm(context)
+  }
+
+  let removeGuard: (() => void) | null = null
+  onMounted(() => {
+    removeGuard = router.addGuard(guard)
+  })
+  onUnmounted(() => {
+    removeGuard?.()
+  })
+}
@@ -0,0 +1,161 @@
+import { injectFragmentContext } from '../contexts/injectFragmentContext'
+import { injectRouterContext } from '../contexts/injectRouterContext'
+import { ModalControl, ModalOptions } from '../types'
+import { getFocusableElements, getFragmentKey } from '../utilities'
+import usePage from './usePage'
+import { isNotNull } from '@navigare/core'
+import {
+  computed,
+  getCurrentInstance,
+  markRaw,
+  onMounted,
+  onUnmounted,
+  reactive,
+  watch,
+} from 'vue'
+
+export default function useModal(options: ModalOptions = {}): ModalControl {
+  const { closeOnEscape = true, trapFocus = true } = options
+  const { router } = injectRouterContext()
+  const context = injectFragmentContext()
+  const instance = getCurrentInstance()
+  const page = usePage()
+  const name = context?.name ?? null
+  const fragments = computed(() => {
+    return name ? page.fragments[name] ?? [] : []
+  })
+  const stack = computed(() => {
+    return fragments.value.filter(isNotNull)
+  })
+  const index = computed(() => {
+    return stack.value.findIndex((fragment) => {
+      return getFragmentKey(fragment) === context?.key
+    })
+  })
+  const depth = computed(() => {
+    return stack.value.length
+  })
+  const isTop = computed(() => {
+    return index.value >= 0 && index.value === depth.value - 1
+  })
+
+  const close = async () => {
+    if (!name || index.value < 0) {
+      return
+    }
+
+    // Stacks may contain gaps so the router expects the index within them
+    await router.closeFragment(
+      name,
+      fragments.value.findIndex((fragment) => {
+        return !!fragment && getFragmentKey(fragment) === context?.key
+      }),
+    )
+  }
+
+  const getElement = (): HTMLElement | null => {
+    const element = options.element?.value ?? instance?.proxy?.$el
+
+    return element instanceof HTMLElement ? element : null
+  }
+
+  // Only the topmost modal reacts to the keyboard
+  const handleKeydown = (event: KeyboardEvent) => {
+    if (!isTop.value) {
+      return
+    }
+
+    if (event.key === 'Escape' && closeOnEscape) {
+      event.preventDefault()
+      close()
+      return
+    }
+
+    const element = getElement()
+
+    if (event.key !== 'Tab' || !trapFocus || !element) {
+      return
+    }
+
+    // Keep the focus within the modal by wrapping around at its edges
+    const focusableElements = getFocusableElements(element)
+    const firstElement = focusableElements[0]
+    const lastElement = focusableElements[focusableElements.length - 1]
+    const activeElement = document.activeElement
+
+    if (!firstElement || !lastElement) {
+      event.preventDefault()
+      return
+    }
+
+    if (
+      event.shiftKey &&
+      (activeElement === firstElement || !element.contains(activeElement))
+    ) {
+      event.preventDefault()
+      lastElement.focus()
+    } else if (
+      !event.shiftKey &&
+      (activeElement === lastElement || !element.contains(activeElement))
+    ) {
+      event.preventDefault()
+      firstElement.focus()
+    }
+  }
+
+  // Move the focus into the modal once it is on top
+  const focus = () => {
+    const element = getElement()
+
+    if (!trapFocus || !element || element.contains(document.activeElement)) {
+      return
+    }
+
+    getFocusableElements(element)[0]?.focus()
+  }
+
+  let previousActiveElement: Element | null = null
+  let stopWatcher: (() => void) | null = null
+  onMounted(() => {
+    previousActiveElement = document.activeElement
+    document.addEventListener('keydown', handleKeydown)
+    stopWatcher = watch(
+      isTop,
+      (isTop) => {
+        if (isTop) {
+          focus()
+        }
+      },
+      {
+        immediate: true,
+      },
+    )
+  })
+  onUnmounted(() => {
+    document.removeEventListener('keydown', handleKeydown)
+    stopWatcher?.()
+
+    // Return the focus to where it was before the modal was opened, which
+    // is coordinated with the focus handling after navigations if enabled
+    if (
+      trapFocus &&
+      previousActiveElement instanceof HTMLElement &&
+      previousActiveElement.isConnected
+    ) {
+      if (router.accessibility) {
+        router.accessibility.restoreFocus(previousActiveElement)
+      } else {
+        previousActiveElement.focus()
+      }
+    }
+  })
+
+  return reactive({
+    name,
+    stack,
+    index,
+    depth,
+    isTop,
+    close: markRaw(close),
+  })
+}
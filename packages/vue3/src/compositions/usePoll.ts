@@ -0,0 +1,84 @@
+import { injectRouterContext } from '../contexts/injectRouterContext'
+import { isFunction, VisitProperties } from '@navigare/core'
+import {
+  computed,
+  markRaw,
+  onMounted,
+  onUnmounted,
+  reactive,
+  ref,
+  watch,
+} from 'vue'
+
+export default function usePoll(
+  getInterval: number | (() => number),
+  options: {
+    properties?: VisitProperties | (() => VisitProperties)
+    hidden?: boolean
+    immediate?: boolean
+  } = {},
+): {
+  active: boolean
+  start: () => void
+  stop: () => void
+} {
+  const { router } = injectRouterContext()
+  const { hidden = false, immediate = true } = options
+  const interval = computed(() => {
+    if (isFunction(getInterval)) {
+      return getInterval()
+    }
+
+    return getInterval
+  })
+  const properties = computed(() => {
+    if (isFunction(options.properties)) {
+      return options.properties()
+    }
+
+    return options.properties ?? []
+  })
+  const active = ref(false)
+  let unsubscribe: (() => void) | null = null
+
+  // Create handlers
+  const stop = () => {
+    unsubscribe?.()
+    unsubscribe = null
+    active.value = false
+  }
+  const start = () => {
+    stop()
+
+    unsubscribe = router.poll(interval.value, {
+      properties: properties.value,
+      hidden,
+    })
+    active.value = true
+  }
+
+  // Restart polling whenever the options change
+  watch([() => interval.value, () => properties.value], () => {
+    if (!active.value) {
+      return
+    }
+
+    start()
+  })
+
+  // Poll only as long as the component is mounted
+  onMounted(() => {
+    if (immediate) {
+      start()
+    }
+  })
+  onUnmounted(() => {
+    stop()
+  })
+
+  return reactive({
+    active,
+    start: markRaw(start),
+    stop: markRaw(stop),
+  })
+}
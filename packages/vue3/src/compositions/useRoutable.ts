@@ -10,6 +10,7 @@ import {
   VisitOptions,
   ResolvedRoutable,
   Route,
+  RouteIssue,
   castArray,
   isArray,
   isFunction,
@@ -25,6 +26,7 @@ export default function useRoutable(
   options: {
     data?: VisitData | (() => VisitData)
     method?: RawRouteMethod | (() => RawRouteMethod)
+    prefetch?: boolean | (() => boolean)
   } = {},
 ): {
   href?: string
@@ -36,6 +38,7 @@ export default function useRoutable(
   preload: () => Promise<void>
   visit: (options?: VisitOptions) => Promise<void>
   pending: boolean
+  issues: RouteIssue[]
   fragment: FragmentControl
   shouldInterceptLink: (event: KeyboardEvent | MouseEvent) => boolean
   getAttributes: (
@@ -77,6 +80,13 @@ export default function useRoutable(
 
     return options.method ?? 'GET'
   })
+  const prefetch = computed(() => {
+    if (isFunction(options.prefetch)) {
+      return options.prefetch()
+    }
+
+    return options.prefetch ?? false
+  })
   const routable = computed(() => {
     if (isArray(route.value)) {
       return route.value[0]
@@ -84,8 +94,22 @@ export default function useRoutable(
 
     return route.value
   })
+  const issues = computed((): RouteIssue[] => {
+    // Invalid parameters are only reported during development, otherwise
+    // resolving the route will throw as usual
+    if (
+      process.env.NODE_ENV === 'production' ||
+      !(routable.value instanceof Route)
+    ) {
+      return []
+    }
+
+    return routable.value.validate({
+      defaults: fragment.defaults,
+    })
+  })
   const resolvedRoutable = computed((): ResolvedRoutable | undefined => {
-    if (!router.instance.isRoutable(routable.value)) {
+    if (!router.instance.isRoutable(routable.value) || issues.value.length) {
       return undefined
     }
 
@@ -103,19 +127,19 @@ export default function useRoutable(
     return location.origin !== router.location.origin
   })
   const active = computed(() => {
-    // Check if the passed route matches the current location
-    return castArray(route.value)
-      .filter(isDefined)
-      .some((route) => {
-        const matches = router.match(
-          route,
-          new Route(fragment.rawRoute, fragment.parameters, {
-            absolute: true,
-          }),
-        )
-
-        return matches
-      })
+    const routes = castArray(route.value).filter(isDefined)
+
+    if (routes.length === 0) {
+      return false
+    }
+
+    // Check if the passed routes match the current location
+    return router.match(
+      routes,
+      new Route(fragment.rawRoute, fragment.parameters, {
+        absolute: true,
+      }),
+    )
   })
   const pending = ref(false)
   const resolvedHref = computed(() => {
@@ -135,11 +159,21 @@ export default function useRoutable(
   const preload = async () => {
     const { components = [] } = resolvedRoutable.value || {}
 
-    await Promise.all(
-      components.map((component) => {
+    await Promise.all([
+      ...components.map((component) => {
         return router.instance.getComponentModule(component)
       }),
-    )
+
+      // Fetch the page itself so the visit can be rendered from cache
+      prefetch.value &&
+      router.instance.isRoutable(routable.value) &&
+      resolvedMethod.value === RouteMethod.GET
+        ? router.instance.prefetch(routable.value, {
+            data: data.value,
+            method: method.value,
+          })
+        : undefined,
+    ])
   }
   const visit = async (options: VisitOptions = {}) => {
     if (!router.instance.isRoutable(routable.value)) {
@@ -147,6 +181,7 @@ export default function useRoutable(
     }
 
     await router.instance.visit(routable.value, {
+      fragmentName: fragment.name ?? undefined,
       ...options,
       data: data.value,
       method: resolvedMethod.value,
@@ -216,6 +251,7 @@ export default function useRoutable(
     preload: markRaw(preload),
     visit: markRaw(visit),
     pending: pending,
+    issues,
     fragment,
     shouldInterceptLink: markRaw(shouldInterceptLink),
     getAttributes: markRaw(getAttributes),
@@ -2,7 +2,7 @@ import { injectRouterContext } from './../contexts/injectRouterContext'
 import { RouterControl } from './../types'
 import useFragment from './useFragment'
 import usePage from './usePage'
-import { RouterEventListener, Route, isArray } from '@navigare/core'
+import { RouterEventListener, Route, MatchableRoute } from '@navigare/core'
 import { PartialRoute } from '@navigare/core'
 import { RouteName } from '@navigare/core'
 import { Routable } from '@navigare/core'
@@ -37,15 +37,10 @@ export default function useRouter() {
         | Routable
         | PartialRoute<RouteName>
         | string
-        | [Routable, ...(PartialRoute | string)[]],
+        | [Routable, ...(PartialRoute | string)[]]
+        | MatchableRoute[],
       baseRoute?: Route<RouteName>,
     ): boolean => {
-      if (isArray(comparableRoute)) {
-        return comparableRoute.some((route) => {
-          return match(route)
-        })
-      }
-
       const matches = router.match(
         comparableRoute,
         baseRoute ?? route.value,
@@ -140,6 +135,18 @@ export default function useRouter() {
       return await router.back(fallback)
     }),
 
+    closeFragment: markRaw(async (name, index) => {
+      return await router.closeFragment(name, index)
+    }),
+
+    prefetch: markRaw(async (routable, options = {}) => {
+      return await router.prefetch(routable, options)
+    }),
+
+    poll: markRaw((interval, options = {}) => {
+      return router.poll(interval, options)
+    }),
+
     match,
 
     on: markRaw((name, listener) => {
@@ -0,0 +1,41 @@
+import { injectRouterContext } from '../contexts/injectRouterContext'
+import { isFunction } from '@navigare/core'
+import { computed, onMounted, onUnmounted, watch } from 'vue'
+
+export default function useSubscription(
+  getChannel: string | (() => string),
+): void {
+  const { router } = injectRouterContext()
+  const channel = computed(() => {
+    if (isFunction(getChannel)) {
+      return getChannel()
+    }
+
+    return getChannel
+  })
+  let unsubscribe: (() => void) | null = null
+
+  const subscribe = () => {
+    unsubscribe?.()
+    unsubscribe = router.subscribe(channel.value)
+  }
+
+  // Switch channels whenever it changes
+  watch(
+    () => channel.value,
+    () => {
+      if (unsubscribe) {
+        subscribe()
+      }
+    },
+  )
+
+  // Receive updates only as long as the component is mounted
+  onMounted(() => {
+    subscribe()
+  })
+  onUnmounted(() => {
+    unsubscribe?.()
+    unsubscribe = null
+  })
+}
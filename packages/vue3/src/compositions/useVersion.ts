@@ -0,0 +1,46 @@
+import { injectRouterContext } from '../contexts/injectRouterContext'
+import { RouterEventListener } from '@navigare/core'
+import { markRaw, onMounted, onUnmounted, reactive, ref } from 'vue'
+
+export default function useVersion(): {
+  available: boolean
+  version: string | null
+  update: () => void
+  dismiss: () => void
+} {
+  const { router } = injectRouterContext()
+  const available = ref(router.versionChange !== null)
+  const version = ref(router.versionChange?.version ?? null)
+
+  const handleVersionChange: RouterEventListener<'versionChange'> = (event) => {
+    // Listeners registered later on might still prevent the version change
+    setTimeout(() => {
+      if (event.defaultPrevented) {
+        return
+      }
+
+      available.value = true
+      version.value = event.detail.version
+    }, 0)
+  }
+
+  let removeListener: (() => void) | null = null
+  onMounted(() => {
+    removeListener = router.on('versionChange', handleVersionChange)
+  })
+  onUnmounted(() => {
+    removeListener?.()
+  })
+
+  return reactive({
+    available,
+    version,
+    update: markRaw(() => {
+      router.updateVersion()
+    }),
+    // The router still reloads on the next navigation
+    dismiss: markRaw(() => {
+      available.value = false
+    }),
+  })
+}
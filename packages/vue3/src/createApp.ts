@@ -10,9 +10,10 @@ import {
   Router,
   RouterOptions,
   getKeys,
+  isObject,
 } from '@navigare/core'
 import { createHead } from '@vueuse/head'
-import { DefineComponent } from 'vue'
+import { DefineComponent, nextTick } from 'vue'
 
 export default function createApp({
   id = 'app',
@@ -23,6 +24,7 @@ export default function createApp({
       stacked: true,
     },
   },
+  transitions,
   ...restOptions
 }: Options): (initialPage?: Page) => Promise<App> {
   return async (initialPage) => {
@@ -49,6 +51,13 @@ export default function createApp({
       resolveComponentModule,
       fragments,
       base,
+      // View transitions wait for Vue to render the next page
+      transitions: transitions
+        ? {
+            render: () => nextTick(),
+            ...(isObject(transitions) ? transitions : {}),
+          }
+        : transitions,
       ...restOptions,
     }
     const router = new Router<DefineComponent>(options)
@@ -3,7 +3,6 @@ import useRouter from './compositions/useRouter'
 import {
   FormControl,
   FormControlOf,
-  FormError,
   FormErrors,
   FormEvents,
   FormInputName,
@@ -28,7 +27,10 @@ import {
   cloneDeep,
   createQueue,
   defaults,
-  PageErrors,
+  getFormInputId,
+  getFormInputName,
+  submitForm,
+  validateFormInput,
 } from '@navigare/core'
 import { computed, markRaw, reactive, ref, watch } from 'vue'
 
@@ -157,6 +159,8 @@ export default function createForm<
   > = {}
   const successful = ref<boolean | undefined>(undefined)
   const recentlySuccessful = ref<boolean | undefined>(undefined)
+  const queuedEntries = ref<number[]>([])
+  const queued = computed(() => queuedEntries.value.length > 0)
   const transform = options.transform || ((values) => values)
 
   // Remember values
@@ -282,6 +286,8 @@ export default function createForm<
 
     recentlySuccessful,
 
+    queued,
+
     submit: markRaw(async (submitOptions = {}) => {
       // Set defaults
       defaults(submitOptions, {
@@ -298,175 +304,77 @@ export default function createForm<
       // Take a copy of the submitted values
       const clonedValues = cloneDeep(values) as TValues
 
-      // Prepare helpers
-      const finish = () => {
-        processing.value = false
-        globalDisabled.value = false
-        trigger.value = null
+      return await submitForm(router.instance, {
+        values: clonedValues,
 
-        emitter.emit(
-          'finish',
-          {
-            values: clonedValues,
-          },
-          [options.events?.finish, submitOptions.events?.finish],
-        )
-      }
+        errors,
 
-      // Run "before" hook
-      emitter.emit(
-        'before',
-        {
-          values: clonedValues,
-        },
-        options.events?.before,
-      )
+        target: callback.value ?? routable.value,
 
-      // Indicate processing state
-      processing.value = true
-      globalDisabled.value = !!submitOptions.disable
+        fragmentName: fragment.name ?? undefined,
 
-      // Remember which element triggered the submission
-      trigger.value = submitOptions.trigger ?? null
+        background: submitOptions.background,
 
-      // Run `validate` hook
-      if (
-        !emitter.emit(
-          'validate',
-          {
-            values: clonedValues,
-            errors,
-          },
-          [options.events?.validate, submitOptions.events?.validate],
-        )
-      ) {
-        return undefined
-      }
-
-      // Submit via callback
-      if (callback.value) {
-        try {
-          const flash = await callback.value(clonedValues)
-
-          successful.value = true
+        transform,
 
-          emitter.emit(
-            'success',
-            {
-              values: clonedValues,
-              flash,
-            },
-            [options.events?.success, submitOptions.events?.success],
-          )
-        } catch (error) {
-          if (error instanceof Error) {
-            emitter.emit(
-              'exception',
-              {
-                error,
-              },
-              [options.events?.exception, submitOptions.events?.exception],
-            )
-          } else {
-            emitter.emit(
-              'error',
-              {
-                errors: error as PageErrors,
-              },
-              [options.events?.error, submitOptions.events?.error],
-            )
-          }
-        }
-
-        finish()
-
-        return undefined
-      }
-
-      // ... or submit via route
-      if (routable.value) {
-        // const visitOptions = options as FormVisitOptions<TValues>
-        const visit = await router.instance.visit(routable.value, {
-          fragmentName: fragment.name ?? undefined,
-
-          data: await transform(clonedValues),
-
-          background: submitOptions.background,
-
-          events: {
-            progress(event) {
-              progress.value = event.detail.progress ?? null
-            },
-
-            error(event) {
-              successful.value = false
-
-              control.clearErrors()
-              control.setErrors(event.detail.errors)
-
-              // Emit event
-              emitter.emit(
-                'error',
-                {
-                  errors: event.detail.errors,
-                },
-                [options.events?.error, submitOptions.events?.error],
-              )
-            },
+        optimistic: submitOptions.optimistic,
 
-            success(event) {
-              successful.value = true
+        emit: (name, details) => {
+          return emitter.emit(name, details, [
+            options.events?.[name],
+            submitOptions.events?.[name],
+          ])
+        },
 
-              // Clear errors
-              control.clearErrors()
+        onStart: () => {
+          // Indicate processing state
+          processing.value = true
+          globalDisabled.value = !!submitOptions.disable
 
-              // Reset values
-              if (!isDefined(options.reset) || !!options.reset) {
-                control.reset()
-              }
-
-              // Emit event
-              emitter.emit(
-                'success',
-                {
-                  values: clonedValues,
-                  flash: event.detail.page.properties.__flash,
-                },
-                [options.events?.success, submitOptions.events?.success],
-              )
-            },
+          // Remember which element triggered the submission
+          trigger.value = submitOptions.trigger ?? null
+        },
 
-            redirect(event) {
-              emitter.emit('redirect', event.detail, [
-                options.events?.redirect,
-                submitOptions.events?.redirect,
-              ])
-            },
+        onProgress: (nextProgress) => {
+          progress.value = nextProgress
+        },
 
-            finish(_event) {
-              finish()
-            },
+        onSuccess: () => {
+          successful.value = true
 
-            before(_event) {},
+          // Clear errors
+          control.clearErrors()
 
-            cancel(_event) {},
+          // Reset values
+          if (!isDefined(options.reset) || !!options.reset) {
+            control.reset()
+          }
+        },
 
-            start(_event) {},
+        onError: (nextErrors) => {
+          successful.value = false
 
-            invalid(_event) {
-              finish()
-            },
+          control.clearErrors()
+          control.setErrors(nextErrors)
+        },
 
-            exception(_event) {
-              finish()
-            },
-          },
-        })
+        onQueued: (entry) => {
+          queuedEntries.value = [...queuedEntries.value, entry.id]
+        },
 
-        return visit
-      }
+        onReplayed: (entry, replayed) => {
+          successful.value = replayed
+          queuedEntries.value = queuedEntries.value.filter((entryId) => {
+            return entryId !== entry.id
+          })
+        },
 
-      return undefined
+        onFinish: () => {
+          processing.value = false
+          globalDisabled.value = false
+          trigger.value = null
+        },
+      })
     }),
 
     validate: markRaw(async (path) => {
@@ -485,83 +393,31 @@ export default function createForm<
           validationRequest?.abortController?.abort()
 
           // Call back-end with precognition mode
-          try {
-            // Remove files from values
-            const sanitizedValues = Object.fromEntries(
-              Object.entries(cloneDeep(values))
-                .map(([key, value]) => {
-                  if (value instanceof Blob) {
-                    return undefined
-                  }
-
-                  return [key, value]
-                })
-                .filter(isDefined),
-            )
-
-            // Stop unnecessary requests early
-            if (!getKeys(sanitizedValues).length) {
-              return
-            }
-            if (!isDefined(get(sanitizedValues, name.split('.')))) {
-              return
-            }
-
-            // Run request with Precognition header
-            const abortController = new AbortController()
-            validationRequest.abortController = abortController
-
-            const { method, location, data } = router.instance.resolveRoutable(
-              routable.value,
-              sanitizedValues,
-            )
-
-            await router.instance.axios({
-              method,
-              data,
-              url: location.href,
-              headers: {
-                Precognition: true,
-                'Precognition-Validate-Only':
-                  router.instance.transformClientPropertyKey(name),
-              },
-              signal: abortController.signal,
-            })
+          const abortController = new AbortController()
+          validationRequest.abortController = abortController
+
+          const nextErrors = await validateFormInput(
+            router.instance,
+            routable.value,
+            values as TValues,
+            name,
+            abortController.signal,
+          )
 
+          if (nextErrors === null) {
             // Clear previous errors if this validation was successful
             if (name) {
               control.setError(name, null)
             } else {
               control.clearErrors()
             }
+          } else if (nextErrors) {
+            control.setErrors(nextErrors)
+          }
 
-            // Clear request
-            delete validationRequests[name].abortController
-          } catch (error) {
-            if (router.instance.axios.isAxiosError(error)) {
-              if (error.code === 'ERR_CANCELED') {
-                // Ignore
-              } else {
-                const { response } = error
-
-                if (response?.status === 422) {
-                  control.setErrors(
-                    Object.fromEntries(
-                      Object.entries(response?.data.errors).map(
-                        ([key, value]) => {
-                          return [
-                            router.instance.transformServerPropertyKey(key),
-                            value as FormError,
-                          ]
-                        },
-                      ),
-                    ),
-                  )
-                }
-              }
-            } else {
-              throw error
-            }
+          // Clear request
+          if (validationRequest.abortController === abortController) {
+            delete validationRequest.abortController
           }
         },
       }
@@ -668,17 +524,15 @@ export default function createForm<
         return ''
       }
 
-      return castArray(
+      return getFormInputName(
         path instanceof Event
-          ? (path.target as HTMLInputElement | undefined)?.name
+          ? (path.target as HTMLInputElement | undefined)?.name ?? ''
           : path,
-      ).join('.')
+      )
     }),
 
     getInputId: markRaw((path) => {
-      return control
-        .getInputName(path)
-        .replace(/[^a-z0-9\-_:\.]|^[^a-z]+/gi, '')
+      return getFormInputId(control.getInputName(path))
     }),
 
     on: markRaw((name, listener) => {
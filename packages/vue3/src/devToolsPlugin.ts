@@ -99,6 +99,13 @@ const plugin: Plugin = {
             'success',
             'cancel',
             'exception',
+            'retry',
+            'queued',
+            'replayed',
+            'replayFailed',
+            'hashchange',
+            'versionChange',
+            'announce',
           ] as const) {
             router.on(eventName, (event) => {
               api.addTimelineEvent({
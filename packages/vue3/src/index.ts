@@ -21,10 +21,20 @@ export {
 
 export { default as NavigareForm, default as Form } from './components/Form'
 
+export {
+  default as NavigareInfiniteScroll,
+  default as InfiniteScroll,
+} from './components/InfiniteScroll'
+
 export { default as NavigareInput, default as Input } from './components/Input'
 
 export { default as NavigareLink, default as Link } from './components/Link'
 
+export {
+  default as NavigareProgressBar,
+  default as ProgressBar,
+} from './components/ProgressBar'
+
 export { default as mountNavigareApp, default as mountApp } from './mountApp'
 
 export { default as renderNavigareApp, default as renderApp } from './renderApp'
@@ -48,6 +58,16 @@ export {
   default as useInput,
 } from './compositions/useInput'
 
+export {
+  default as useNavigareLeaveGuard,
+  default as useLeaveGuard,
+} from './compositions/useLeaveGuard'
+
+export {
+  default as useNavigareModal,
+  default as useModal,
+} from './compositions/useModal'
+
 export {
   default as useNavigarePage,
   default as usePage,
@@ -63,6 +83,11 @@ export {
   default as useParameter,
 } from './compositions/useParameter'
 
+export {
+  default as useNavigarePoll,
+  default as usePoll,
+} from './compositions/usePoll'
+
 export {
   default as useNavigareRouter,
   default as useRouter,
@@ -73,6 +98,16 @@ export {
   default as useRoutable,
 } from './compositions/useRoutable'
 
+export {
+  default as useNavigareSubscription,
+  default as useSubscription,
+} from './compositions/useSubscription'
+
+export {
+  default as useNavigareVersion,
+  default as useVersion,
+} from './compositions/useVersion'
+
 export * from './types'
 
 export * from './utilities'
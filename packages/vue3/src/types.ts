@@ -6,6 +6,7 @@ import {
   Page,
   Fragments,
   PartialRoute,
+  MatchableRoute,
   Routable,
   Route,
   RouteName,
@@ -16,10 +17,19 @@ import {
   VisitData,
   VisitOptions,
   VisitProgress,
+  VisitPrefetchOptions,
+  PollOptions,
   Visit,
-  FormDataConvertible,
-  PageErrors,
-  DefaultPageProperties,
+  FormError,
+  FormErrors,
+  FormEventListener,
+  FormEventNames,
+  FormInputName,
+  FormInputPath,
+  FormValidationOptions,
+  FormValue,
+  FormValues,
+  Fragment,
 } from '@navigare/core'
 import { HeadClient } from '@vueuse/head'
 import {
@@ -96,12 +106,16 @@ export type RouterControl = {
     options?: Exclude<VisitOptions, 'preserveScroll' | 'preserveState'>,
   ): Promise<Visit>
   back(fallback?: Routable): Promise<void>
+  closeFragment(name: string, index?: number): Promise<void>
+  prefetch(routable: Routable, options?: VisitPrefetchOptions): Promise<void>
+  poll(interval: number, options?: PollOptions): () => void
   match(
     comparableRoute:
       | Routable
       | PartialRoute<RouteName>
       | string
-      | [Routable, ...(PartialRoute | string)[]],
+      | [Routable, ...(PartialRoute | string)[]]
+      | MatchableRoute[],
     route?: Route<RouteName>,
   ): boolean
   on<TEventName extends RouterEventNames>(
@@ -134,9 +148,42 @@ export type FragmentControl = {
   visit: Page['visit']
   exposed: Record<string, any>
   key: string | null
+  pending: boolean
+}
+
+// Modals
+export type ModalOptions = {
+  closeOnEscape?: boolean
+  trapFocus?: boolean
+  element?: Ref<HTMLElement | null>
+}
+
+export type ModalControl = {
+  name: string | null
+  stack: Fragment[]
+  index: number
+  depth: number
+  isTop: boolean
+  close(): Promise<void>
 }
 
 // Forms
+export type {
+  FormError,
+  FormErrors,
+  FormEvents,
+  FormEventNames,
+  FormEventDetails,
+  FormEventResult,
+  FormEvent,
+  FormEventListener,
+  FormInputName,
+  FormInputPath,
+  FormValue,
+  FormValues,
+  FormValidationOptions,
+} from '@navigare/core'
+
 export type FormRestore<TData> = {
   data?: TData
   errors?: FormErrors
@@ -148,107 +195,14 @@ export type FormTransformer<TData, TTransformedData extends FormValues> = (
   data: TData,
 ) => TTransformedData
 
-export type FormError = string | string[] | null
-
-export interface FormErrors {
-  [name: string]: FormError
-}
-
-export type FormEvents<TValues extends FormValues = FormValues> = {
-  validate: {
-    details: {
-      values: TValues
-      errors: FormErrors
-    }
-    result: void
-  }
-
-  before: {
-    details: {
-      values: TValues
-    }
-    result: void
-  }
-
-  success: {
-    details: {
-      values: TValues
-      flash: DefaultPageProperties['__flash']
-    }
-    result: void
-  }
-
-  redirect: {
-    details: {
-      location: RouterLocation
-    }
-    result: void
-  }
-
-  error: {
-    details: {
-      errors: PageErrors
-    }
-    result: void
-  }
-
-  finish: {
-    details: {
-      values: TValues
-    }
-    result: void
-  }
-
-  reset: {
-    details: {
-      previousValues: TValues
-      nextValues: TValues
-    }
-    result: void
-  }
-
-  change: {
-    details: {
-      values: TValues
-    }
-    result: void
-  }
-
-  exception: {
-    details: {
-      error: Error
-    }
-    result: boolean | void
-  }
-}
-
-export type FormEventNames = keyof FormEvents
-
-export type FormEventDetails<TEventName extends FormEventNames> =
-  FormEvents[TEventName]['details']
-
-export type FormEventResult<TEventName extends FormEventNames> =
-  FormEvents[TEventName]['result']
-
-export type FormEvent<TEventName extends FormEventNames> = CustomEvent<
-  FormEventDetails<TEventName>
->
-
-export type FormEventListener<TEventName extends FormEventNames> = (
-  event: FormEvent<TEventName>,
-) => FormEventResult<TEventName>
-
-export type FormValidationOptions =
-  | boolean
-  | Partial<{
-      on: 'input' | 'change' | false
-      debounce: number
-    }>
-
 export type FormSubmitOptions = Partial<{
   trigger: FormTrigger
   background: boolean
   disable: boolean
+  optimistic: (
+    properties: Page['properties'],
+    values: FormValues,
+  ) => Partial<Page['properties']>
   events: Partial<{
     [TEventName in FormEventNames]: FormEventListener<TEventName>
   }>
@@ -275,22 +229,12 @@ export type FormOptions<
   ? FormBaseOptions<TValues>
   : FormVisitOptions<TValues>
 
-export type FormInputName = string | number
-
-export type FormInputPath = FormInputName[]
-
 export type FormTrigger =
   | Element
   | HTMLElement
   | ComponentInternalInstance
   | null
 
-export type FormValue = FormDataConvertible | FormValues
-
-export interface FormValues {
-  [key: string]: FormValue
-}
-
 export interface FormControl<
   TValues extends FormValues = FormValues,
   // TTransformedValues extends FormValues = TValues,
@@ -317,6 +261,8 @@ export interface FormControl<
 
   recentlySuccessful: boolean | undefined
 
+  queued: boolean
+
   blocked: boolean
 
   blockers: Record<string, boolean>
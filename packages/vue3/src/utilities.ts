@@ -44,3 +44,23 @@ export function getFragmentKey(fragment: Fragment): string {
     fragment.component.id,
   ].join('-')
 }
+
+export function getFocusableElements(element: Element): HTMLElement[] {
+  return Array.from(
+    element.querySelectorAll<HTMLElement>(
+      [
+        'a[href]',
+        'area[href]',
+        'button:not([disabled])',
+        'input:not([disabled]):not([type="hidden"])',
+        'select:not([disabled])',
+        'textarea:not([disabled])',
+        'iframe',
+        '[contenteditable]',
+        '[tabindex]:not([tabindex="-1"])',
+      ].join(','),
+    ),
+  ).filter((focusableElement) => {
+    return !focusableElement.closest('[inert]')
+  })
+}
@@ -0,0 +1,210 @@
+/**
+ * @vitest-environment jsdom
+ */
+import InfiniteScroll from '../src/components/InfiniteScroll'
+import provideRouterContext from '../src/contexts/provideRouterContext'
+import {
+  Page,
+  RouteMethod,
+  Router,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  wait,
+} from '@navigare/core'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createApp, defineComponent, DefineComponent, h, nextTick } from 'vue'
+
+const createPage = (properties: Page['properties'] = {}): Page => {
+  const url = new URL('/posts', window.location.href)
+  const location = {
+    href: url.href,
+    host: url.host,
+    hostname: url.hostname,
+    origin: url.origin,
+    pathname: url.pathname,
+    port: url.port,
+    protocol: url.protocol,
+    search: '',
+    hash: '',
+  }
+
+  return {
+    visit: {
+      id: 'initial',
+      method: RouteMethod.GET,
+      location,
+    },
+    csrf: null,
+    properties,
+    rawRoute: {
+      name: 'posts.index',
+      uri: 'posts',
+      methods: ['GET', 'HEAD'],
+    },
+    location,
+    defaults: {},
+    parameters: {},
+    version: null,
+    layout: null,
+    timestamp: 0,
+    obsolete: false,
+    scrollRegions: [],
+    rememberedState: {},
+    fragments: {},
+  } as unknown as Page
+}
+
+const createNextPageResponse = (request: TransportRequest) => {
+  return {
+    status: 200,
+    headers: {
+      'x-navigare': 'true',
+    },
+    data: createPage({
+      posts: { data: [3], next: null },
+      __merge: { posts: 'append' },
+    }),
+    url: request.url,
+  }
+}
+
+class TestIntersectionObserver {
+  public static instances: TestIntersectionObserver[] = []
+
+  public observe = vi.fn()
+
+  public disconnect = vi.fn()
+
+  public constructor(protected callback: IntersectionObserverCallback) {
+    TestIntersectionObserver.instances.push(this)
+  }
+
+  public intersect() {
+    this.callback(
+      [{ isIntersecting: true } as IntersectionObserverEntry],
+      this as unknown as IntersectionObserver,
+    )
+  }
+}
+
+const mountInfiniteScroll = (transport: Transport, page: number | null) => {
+  const router = new Router<DefineComponent>({
+    initialPage: createPage({
+      posts: { data: [1, 2], next: page },
+    }),
+    base: '/',
+    transport,
+  })
+  const element = document.createElement('div')
+
+  createApp(
+    defineComponent({
+      setup() {
+        provideRouterContext(router)
+
+        return () =>
+          h(
+            InfiniteScroll,
+            {
+              property: 'posts',
+              page,
+            },
+            {
+              done: () => h('p', 'No more posts'),
+            },
+          )
+      },
+    }),
+  ).mount(element)
+
+  return {
+    router,
+    element,
+  }
+}
+
+describe('InfiniteScroll', () => {
+  beforeEach(() => {
+    TestIntersectionObserver.instances = []
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined)
+    Object.assign(window, {
+      IntersectionObserver: TestIntersectionObserver,
+    })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    Reflect.deleteProperty(window, 'IntersectionObserver')
+  })
+
+  it('merges the next page once the end becomes visible', async () => {
+    const transport = {
+      request: vi.fn(async (request: TransportRequest) => {
+        return createNextPageResponse(request)
+      }),
+    }
+    const { router } = mountInfiniteScroll(transport, 2)
+    await nextTick()
+
+    TestIntersectionObserver.instances[0].intersect()
+    await wait(10)
+
+    expect(transport.request).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: `${window.location.origin}/posts?page=2`,
+        headers: expect.objectContaining({
+          'X-Navigare-Properties': ['posts'],
+        }),
+      }),
+    )
+    expect(router.page.properties.posts).toEqual({
+      data: [1, 2, 3],
+      next: null,
+    })
+  })
+
+  it('does not load the next page again while it is loading', async () => {
+    const responses: Array<() => void> = []
+    const transport = {
+      request: vi.fn((request: TransportRequest) => {
+        return new Promise<TransportResponse>((resolve) => {
+          responses.push(() => {
+            resolve(createNextPageResponse(request))
+          })
+        })
+      }),
+    }
+    mountInfiniteScroll(transport, 2)
+    await nextTick()
+
+    const [observer] = TestIntersectionObserver.instances
+    observer.intersect()
+    await wait(0)
+    observer.intersect()
+    await wait(0)
+
+    expect(transport.request).toHaveBeenCalledTimes(1)
+
+    responses[0]()
+    await wait(10)
+  })
+
+  it('stops once there is no next page', async () => {
+    const transport = {
+      request: vi.fn(async (request: TransportRequest) => {
+        return createNextPageResponse(request)
+      }),
+    }
+    const { element } = mountInfiniteScroll(transport, null)
+    await nextTick()
+
+    const [observer] = TestIntersectionObserver.instances
+    observer.intersect()
+    await wait(10)
+
+    expect(observer.observe).not.toHaveBeenCalled()
+    expect(transport.request).not.toHaveBeenCalled()
+    expect(element.textContent).toEqual('No more posts')
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * @vitest-environment jsdom
+ */
+import Link from '../src/components/Link'
+import provideRouterContext from '../src/contexts/provideRouterContext'
+import { Page, Route, RouteMethod, Router, wait } from '@navigare/core'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  createApp,
+  defineComponent,
+  DefineComponent,
+  h,
+  nextTick,
+  ref,
+} from 'vue'
+
+const createPage = (): Page => {
+  const url = new URL('/posts', window.location.href)
+  const location = {
+    href: url.href,
+    host: url.host,
+    hostname: url.hostname,
+    origin: url.origin,
+    pathname: url.pathname,
+    port: url.port,
+    protocol: url.protocol,
+    search: '',
+    hash: '',
+  }
+
+  return {
+    visit: {
+      id: 'initial',
+      method: RouteMethod.GET,
+      location,
+    },
+    csrf: null,
+    properties: {
+      errors: {},
+    },
+    rawRoute: {
+      name: 'posts.index',
+      uri: 'posts',
+      methods: ['GET', 'HEAD'],
+    },
+    location,
+    defaults: {},
+    parameters: {},
+    version: null,
+    layout: null,
+    timestamp: 0,
+    obsolete: false,
+    scrollRegions: [],
+    rememberedState: {},
+    fragments: {},
+  } as unknown as Page
+}
+
+describe('Link', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('warns about invalid routes once', async () => {
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined)
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const router = new Router<DefineComponent>({
+      initialPage: createPage(),
+      base: '/',
+    })
+    const label = ref('Post')
+    const element = document.createElement('div')
+
+    createApp(
+      defineComponent({
+        setup() {
+          provideRouterContext(router)
+
+          return () =>
+            h(
+              Link,
+              {
+                route: new Route(
+                  {
+                    name: 'posts.show' as never,
+                    uri: 'posts/{post}',
+                    methods: ['GET', 'HEAD'],
+                  },
+                  {},
+                ),
+              },
+              () => label.value,
+            )
+        },
+      }),
+    ).mount(element)
+
+    // Render again without changing the route
+    label.value = 'Show post'
+    await nextTick()
+
+    // Let the router handle the initial page
+    await wait(0)
+
+    const link = element.querySelector('a')
+
+    expect(link?.textContent).toEqual('Show post')
+    expect(link?.getAttribute('data-invalid')).toEqual('true')
+    expect(warn).toHaveBeenCalledTimes(1)
+  })
+})
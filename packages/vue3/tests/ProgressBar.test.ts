@@ -0,0 +1,108 @@
+/**
+ * @vitest-environment jsdom
+ */
+import ProgressBar from '../src/components/ProgressBar'
+import provideRouterContext from '../src/contexts/provideRouterContext'
+import { createEmitter, Router, RouterEvents, Visit } from '@navigare/core'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createApp, defineComponent, DefineComponent, h, nextTick } from 'vue'
+
+const createVisit = (id: string, background = false): Visit => {
+  return {
+    id,
+    background,
+  } as unknown as Visit
+}
+
+const mountProgressBar = () => {
+  const emitter = createEmitter<RouterEvents>({})
+  const router = {
+    on: emitter.on,
+  }
+  const element = document.createElement('div')
+
+  createApp(
+    defineComponent({
+      setup() {
+        provideRouterContext(router as unknown as Router<DefineComponent>)
+
+        return () => h(ProgressBar)
+      },
+    }),
+  ).mount(element)
+
+  return {
+    emitter,
+    bar: element.querySelector<HTMLElement>('[role="progressbar"]'),
+  }
+}
+
+describe('ProgressBar', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('shows the progress of visits and resets afterwards', async () => {
+    const { emitter, bar } = mountProgressBar()
+    const visit = createVisit('posts')
+
+    await emitter.emit('start', {
+      visit,
+    })
+    await nextTick()
+
+    // Fast visits don't show the bar at all
+    expect(bar?.getAttribute('aria-hidden')).toEqual('true')
+
+    vi.advanceTimersByTime(250)
+    await nextTick()
+
+    expect(bar?.getAttribute('aria-hidden')).toEqual('false')
+    expect(bar?.style.opacity).toEqual('1')
+
+    await emitter.emit('progress', {
+      visit,
+      progress: {
+        percentage: 50,
+        loaded: 50,
+        total: 100,
+        bytes: 50,
+        download: true,
+      },
+    })
+    await nextTick()
+
+    expect(bar?.style.width).toEqual('75%')
+
+    await emitter.emit('finish', {
+      visit,
+    })
+    await nextTick()
+
+    expect(bar?.style.width).toEqual('100%')
+
+    vi.advanceTimersByTime(300)
+    await nextTick()
+
+    expect(bar?.getAttribute('aria-hidden')).toEqual('true')
+    expect(bar?.style.opacity).toEqual('0')
+    expect(bar?.style.width).toEqual('0%')
+  })
+
+  it('ignores background visits', async () => {
+    const { emitter, bar } = mountProgressBar()
+
+    await emitter.emit('start', {
+      visit: createVisit('poll', true),
+    })
+    vi.advanceTimersByTime(250)
+    await nextTick()
+
+    expect(bar?.getAttribute('aria-hidden')).toEqual('true')
+    expect(bar?.style.width).toEqual('0%')
+  })
+})
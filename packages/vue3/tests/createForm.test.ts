@@ -0,0 +1,176 @@
+/**
+ * @vitest-environment jsdom
+ */
+import provideRouterContext from '../src/contexts/provideRouterContext'
+import createForm from '../src/createForm'
+import { FormControl } from '../src/types'
+import {
+  OfflineQueue,
+  OfflineVisit,
+  Page,
+  Route,
+  RouteMethod,
+  Router,
+  TransportRequest,
+  wait,
+} from '@navigare/core'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createApp, defineComponent, DefineComponent, h } from 'vue'
+
+const createPage = (pathname: string): Page => {
+  const url = new URL(pathname, window.location.href)
+  const location = {
+    href: url.href,
+    host: url.host,
+    hostname: url.hostname,
+    origin: url.origin,
+    pathname: url.pathname,
+    port: url.port,
+    protocol: url.protocol,
+    search: '',
+    hash: '',
+  }
+
+  return {
+    visit: {
+      id: 'initial',
+      method: RouteMethod.GET,
+      location,
+    },
+    csrf: null,
+    properties: {
+      errors: {},
+    },
+    rawRoute: {
+      name: 'posts.index',
+      uri: 'posts',
+      methods: ['GET', 'HEAD'],
+    },
+    location,
+    defaults: {},
+    parameters: {},
+    version: null,
+    layout: null,
+    timestamp: 0,
+    obsolete: false,
+    scrollRegions: [],
+    rememberedState: {},
+    fragments: {},
+  } as unknown as Page
+}
+
+const mountForm = (router: Router<DefineComponent>) => {
+  const forms: FormControl<{ title: string }>[] = []
+
+  const Form = defineComponent({
+    setup() {
+      forms.push(
+        createForm(
+          'post',
+          {
+            title: 'Offline',
+          },
+          new Route(
+            {
+              name: 'posts.store' as never,
+              uri: 'posts',
+              methods: ['POST'],
+            },
+            {},
+          ),
+        ),
+      )
+
+      return () => null
+    },
+  })
+  createApp(
+    defineComponent({
+      setup() {
+        provideRouterContext(router)
+
+        return () => h(Form)
+      },
+    }),
+  ).mount(document.createElement('div'))
+
+  return forms[0]
+}
+
+describe('createForm', () => {
+  const entries: OfflineVisit[] = []
+
+  // IndexedDB is not available in jsdom so the queue is kept in memory
+  beforeEach(() => {
+    entries.length = 0
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => undefined)
+    vi.spyOn(OfflineQueue, 'isSupported').mockReturnValue(true)
+    vi.spyOn(OfflineQueue.prototype, 'all').mockImplementation(async () => {
+      return [...entries]
+    })
+    vi.spyOn(OfflineQueue.prototype, 'add').mockImplementation(
+      async (entry) => {
+        const offlineVisit = {
+          ...entry,
+          id: entries.length + 1,
+        }
+        entries.push(offlineVisit)
+
+        return offlineVisit
+      },
+    )
+    vi.spyOn(OfflineQueue.prototype, 'delete').mockImplementation(
+      async (id) => {
+        entries.splice(
+          entries.findIndex((entry) => entry.id === id),
+          1,
+        )
+      },
+    )
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    Reflect.deleteProperty(navigator, 'onLine')
+  })
+
+  it('stays queued until the visit was replayed', async () => {
+    Object.defineProperty(navigator, 'onLine', {
+      configurable: true,
+      value: false,
+    })
+    const transport = {
+      request: vi.fn(async (request: TransportRequest) => {
+        return {
+          status: 200,
+          headers: {
+            'x-navigare': 'true',
+          },
+          data: createPage('/posts'),
+          url: request.url,
+        }
+      }),
+    }
+    const router = new Router<DefineComponent>({
+      initialPage: createPage('/posts'),
+      base: '/',
+      transport,
+      offline: true,
+    })
+    const form = mountForm(router)
+
+    await form.submit()
+
+    expect(transport.request).not.toHaveBeenCalled()
+    expect(form.queued).toBe(true)
+    expect(form.processing).toBe(false)
+
+    Reflect.deleteProperty(navigator, 'onLine')
+    window.dispatchEvent(new Event('online'))
+    await wait(10)
+
+    expect(transport.request).toHaveBeenCalledTimes(1)
+    expect(form.queued).toBe(false)
+    expect(form.successful).toBe(true)
+  })
+})
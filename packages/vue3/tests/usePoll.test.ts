@@ -0,0 +1,94 @@
+/**
+ * @vitest-environment jsdom
+ */
+import usePoll from '../src/compositions/usePoll'
+import provideRouterContext from '../src/contexts/provideRouterContext'
+import { Router } from '@navigare/core'
+import { describe, expect, it, vi } from 'vitest'
+import {
+  createApp,
+  defineComponent,
+  DefineComponent,
+  h,
+  nextTick,
+  ref,
+} from 'vue'
+
+const mountPoll = (...args: Parameters<typeof usePoll>) => {
+  const unsubscribe = vi.fn()
+  const router = {
+    poll: vi.fn(() => unsubscribe),
+  }
+  let control: ReturnType<typeof usePoll> | null = null
+
+  const Poll = defineComponent({
+    setup() {
+      control = usePoll(...args)
+
+      return () => null
+    },
+  })
+  const app = createApp(
+    defineComponent({
+      setup() {
+        provideRouterContext(router as unknown as Router<DefineComponent>)
+
+        return () => h(Poll)
+      },
+    }),
+  )
+  app.mount(document.createElement('div'))
+
+  return {
+    app,
+    router,
+    unsubscribe,
+    control: control!,
+  }
+}
+
+describe('usePoll', () => {
+  it('polls while mounted and restarts on changes', async () => {
+    const interval = ref(1000)
+    const { app, router, unsubscribe } = mountPoll(() => interval.value, {
+      properties: ['posts'],
+    })
+
+    expect(router.poll).toHaveBeenCalledWith(1000, {
+      properties: ['posts'],
+      hidden: false,
+    })
+
+    interval.value = 500
+    await nextTick()
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1)
+    expect(router.poll).toHaveBeenLastCalledWith(500, {
+      properties: ['posts'],
+      hidden: false,
+    })
+
+    app.unmount()
+
+    expect(unsubscribe).toHaveBeenCalledTimes(2)
+  })
+
+  it('stops and starts on demand', async () => {
+    const { router, unsubscribe, control } = mountPoll(1000, {
+      immediate: false,
+    })
+
+    expect(router.poll).not.toHaveBeenCalled()
+    expect(control.active).toBe(false)
+
+    control.start()
+
+    expect(router.poll).toHaveBeenCalledTimes(1)
+    expect(control.active).toBe(true)
+
+    control.stop()
+
+    expect(unsubscribe).toHaveBeenCalledTimes(1)
+    expect(control.active).toBe(false)
+  })
+})
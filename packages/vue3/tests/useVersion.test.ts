@@ -0,0 +1,86 @@
+/**
+ * @vitest-environment jsdom
+ */
+import useVersion from '../src/compositions/useVersion'
+import provideRouterContext from '../src/contexts/provideRouterContext'
+import { createEmitter, Router, RouterEvents, wait } from '@navigare/core'
+import { describe, expect, it } from 'vitest'
+import { createApp, defineComponent, DefineComponent, h } from 'vue'
+
+const mountVersion = () => {
+  const emitter = createEmitter<RouterEvents>({
+    versionChange: {
+      options: {
+        cancelable: true,
+      },
+    },
+  })
+  const router = {
+    versionChange: null,
+    on: emitter.on,
+  }
+  const controls: ReturnType<typeof useVersion>[] = []
+
+  const Version = defineComponent({
+    setup() {
+      controls.push(useVersion())
+
+      return () => null
+    },
+  })
+  createApp(
+    defineComponent({
+      setup() {
+        provideRouterContext(router as unknown as Router<DefineComponent>)
+
+        return () => h(Version)
+      },
+    }),
+  ).mount(document.createElement('div'))
+
+  const emitVersionChange = async () => {
+    await emitter.emit('versionChange', {
+      version: '2',
+      previousVersion: '1',
+      location: {} as RouterEvents['versionChange']['details']['location'],
+      visit: {} as RouterEvents['versionChange']['details']['visit'],
+      strategy: 'notify',
+    })
+    await wait(0)
+  }
+
+  return {
+    emitter,
+    emitVersionChange,
+    control: controls[0],
+  }
+}
+
+describe('useVersion', () => {
+  it('reports available versions', async () => {
+    const { control, emitVersionChange } = mountVersion()
+
+    expect(control.available).toBe(false)
+
+    await emitVersionChange()
+
+    expect(control.available).toBe(true)
+    expect(control.version).toEqual('2')
+
+    control.dismiss()
+
+    expect(control.available).toBe(false)
+  })
+
+  it('ignores version changes prevented by other listeners', async () => {
+    const { control, emitter, emitVersionChange } = mountVersion()
+    emitter.on('versionChange', (event) => {
+      event.preventDefault()
+    })
+
+    await emitVersionChange()
+
+    expect(control.available).toBe(false)
+    expect(control.version).toBeNull()
+  })
+})
@@ -1,4 +1,7 @@
-import { getVNodeText } from '../src/utilities'
+/**
+ * @vitest-environment jsdom
+ */
+import { getFocusableElements, getVNodeText } from '../src/utilities'
 import { describe, expect, it } from 'vitest'
 import { defineComponent, h, render } from 'vue'
 
@@ -47,3 +50,21 @@ describe('getVNodeText', () => {
     expect(getVNodeText(() => [vnode])).toEqual('Custom Test')
   })*/
 })
+
+describe('getFocusableElements', () => {
+  it('returns focusable elements that are not disabled or inert', () => {
+    const element = document.createElement('div')
+    element.innerHTML = `
+      <a href="/">Home</a>
+      <button disabled>Disabled</button>
+      <input type="hidden" />
+      <div inert><button>Inert</button></div>
+      <textarea></textarea>
+      <span tabindex="0">Custom</span>
+    `
+
+    expect(
+      getFocusableElements(element).map((element) => element.tagName),
+    ).toEqual(['A', 'TEXTAREA', 'SPAN'])
+  })
+})